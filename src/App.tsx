@@ -1,20 +1,119 @@
-import React, { useState } from 'react';
+import { Fragment, useEffect, useMemo, useState } from 'react';
 import { FileUploader } from './components/FileUploader';
-import { Toaster } from 'react-hot-toast';
-import type { TrialBalance } from './lib/types';
-import { FileText, AlertCircle, Info, Download } from 'lucide-react';
-import { exportToExcel } from './lib/exportUtils';
+import { DetectedTablesCard } from './components/DetectedTablesCard';
+import { ReviewPanel } from './components/ReviewPanel';
+import { UnusualBalances } from './components/UnusualBalances';
+import { EvidenceBreakdown } from './components/EvidenceBreakdown';
+import { FinancialStatementsCard } from './components/FinancialStatementsCard';
+import { RatiosPanel } from './components/RatiosPanel';
+import { VariancePanel } from './components/VariancePanel';
+import { TotalsReconciliation } from './components/TotalsReconciliation';
+import { BalanceDiagnostics } from './components/BalanceDiagnostics';
+import { ClassificationMemoryPanel } from './components/ClassificationMemoryPanel';
+import {
+  forgetClassification,
+  loadActiveProfile,
+  loadLearnedClassifications,
+  loadProfiles,
+  pullRemoteClassifications,
+  purgeProfile,
+  rememberClassification,
+  saveActiveProfile
+} from './lib/classificationMemory';
+import { Toaster, toast } from 'react-hot-toast';
+import type { FinancialEntry, LearnedClassification, ProcessedFile, TrialBalance, VarianceThresholds } from './lib/types';
+import { FileText, AlertCircle, Download, ChevronDown, ChevronRight } from 'lucide-react';
+import { exportAllToExcel, exportToExcel } from './lib/exportUtils';
+import { manualClassification, reclassifyAccount } from './lib/reclassification';
+import type { ClassificationNode } from './lib/reclassification';
+import { comparePeriods, loadVarianceThresholds, saveVarianceThresholds } from './lib/periodComparison';
+
+/** The file name, numbered when several queued files share it, e.g. one "TB.xlsx" per entity */
+function fileLabel(file: ProcessedFile, files: ProcessedFile[]): string {
+  const namesakes = files.filter(other => other.fileName === file.fileName);
+  return namesakes.length > 1 ? `${file.fileName} (${namesakes.indexOf(file) + 1})` : file.fileName;
+}
 
 function App() {
-  const [processedData, setProcessedData] = useState<TrialBalance | null>(null);
+  const [processedFiles, setProcessedFiles] = useState<ProcessedFile[]>([]);
+  const [selectedFile, setSelectedFile] = useState<string | null>(null);
+  const [expandedEntry, setExpandedEntry] = useState<number | null>(null);
+  const [profile, setProfile] = useState(loadActiveProfile);
+  const [profiles, setProfiles] = useState(loadProfiles);
+  const [learned, setLearned] = useState(() => loadLearnedClassifications(loadActiveProfile()));
+  const [priorFile, setPriorFile] = useState<string | null>(null);
+  const [varianceThresholds, setVarianceThresholds] = useState(loadVarianceThresholds);
+
+  useEffect(() => {
+    let active = true;
+    pullRemoteClassifications(profile).then(remote => {
+      if (active) setLearned(remote);
+    });
+    return () => {
+      active = false;
+    };
+  }, [profile]);
+
+  const processedData = processedFiles.find(file => file.id === selectedFile)?.trialBalance ?? null;
+  const priorCandidates = processedFiles.filter(file => file.id !== selectedFile);
+  const prior = priorCandidates.find(file => file.id === priorFile) ?? null;
+  const priorData = prior?.trialBalance ?? null;
+  const comparison = useMemo(
+    () => processedData && priorData ? comparePeriods(processedData, priorData, varianceThresholds) : null,
+    [processedData, priorData, varianceThresholds]
+  );
+
+  const handleDataProcessed = (data: TrialBalance, id: string, fileName: string) => {
+    // Reprocessing a queue item replaces its earlier result
+    setProcessedFiles(prev => [
+      ...prev.filter(file => file.id !== id),
+      { id, fileName, trialBalance: data, processedAt: new Date().toISOString() }
+    ]);
+    setSelectedFile(id);
+    setExpandedEntry(null);
+  };
+
+  const handleReclassify = (id: string, entry: FinancialEntry, node: ClassificationNode, reasoning: string) => {
+    const classification = manualClassification(node, reasoning);
+    setProcessedFiles(prev => prev.map(file =>
+      file.id === id
+        ? { ...file, trialBalance: reclassifyAccount(file.trialBalance, entry, classification) }
+        : file
+    ));
+    // Remember the confirmation so the account is classified the same way next time
+    setLearned(rememberClassification(profile, entry, classification));
+    setProfiles(loadProfiles());
+    toast.success(`Reclassified ${entry.accountCode || entry.accountName} as ${node.primary}`);
+  };
+
+  const handleSelectProfile = (name: string) => {
+    saveActiveProfile(name);
+    setProfile(name);
+    setProfiles(prev => prev.includes(name) ? prev : [...prev, name]);
+    setLearned(loadLearnedClassifications(name));
+  };
+
+  const handleUpdateLearned = (item: LearnedClassification, node: ClassificationNode) => {
+    setLearned(rememberClassification(profile, item, manualClassification(node, item.classification.reasoning)));
+  };
+
+  const handleForgetLearned = (item: LearnedClassification) => {
+    setLearned(forgetClassification(profile, item));
+  };
 
-  const handleDataProcessed = (data: TrialBalance) => {
-    setProcessedData(data);
+  const handlePurgeLearned = () => {
+    setLearned(purgeProfile(profile));
+    toast.success(`Cleared learned classifications for ${profile}`);
+  };
+
+  const handleChangeThresholds = (thresholds: VarianceThresholds) => {
+    saveVarianceThresholds(thresholds);
+    setVarianceThresholds(thresholds);
   };
 
   const handleDownload = () => {
     if (processedData) {
-      exportToExcel(processedData);
+      exportToExcel(processedData, comparison && prior ? { result: comparison, priorFileName: fileLabel(prior, processedFiles) } : undefined);
     }
   };
 
@@ -33,12 +132,47 @@ function App() {
 
       <main className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
         <div className="flex flex-col items-center gap-8">
-          <FileUploader onDataProcessed={handleDataProcessed} />
+          <FileUploader onDataProcessed={handleDataProcessed} learnedClassifications={learned} />
+
+          <ClassificationMemoryPanel
+            profiles={profiles}
+            profile={profile}
+            learned={learned}
+            onSelectProfile={handleSelectProfile}
+            onUpdate={handleUpdateLearned}
+            onForget={handleForgetLearned}
+            onPurge={handlePurgeLearned}
+          />
 
           {processedData && (
             <div className="w-full max-w-4xl space-y-6">
-              {/* Download Button */}
-              <div className="flex justify-end">
+              {/* Result Selector and Download Buttons */}
+              <div className="flex flex-wrap items-center justify-end gap-3">
+                {processedFiles.length > 1 && (
+                  <select
+                    value={selectedFile ?? ''}
+                    onChange={(e) => {
+                      setSelectedFile(e.target.value);
+                      setExpandedEntry(null);
+                    }}
+                    className="mr-auto rounded border-gray-300 text-sm"
+                  >
+                    {processedFiles.map(file => (
+                      <option key={file.id} value={file.id}>
+                        {fileLabel(file, processedFiles)} {file.trialBalance.isBalanced ? '' : '(not balanced)'}
+                      </option>
+                    ))}
+                  </select>
+                )}
+                {processedFiles.length > 1 && (
+                  <button
+                    onClick={() => exportAllToExcel(processedFiles)}
+                    className="flex items-center gap-2 px-4 py-2 bg-white border border-blue-500 text-blue-600 rounded-lg hover:bg-blue-50 transition-colors"
+                  >
+                    <Download className="h-5 w-5" />
+                    Download All ({processedFiles.length} files)
+                  </button>
+                )}
                 <button
                   onClick={handleDownload}
                   className="flex items-center gap-2 px-4 py-2 bg-blue-500 text-white rounded-lg hover:bg-blue-600 transition-colors"
@@ -49,27 +183,10 @@ function App() {
               </div>
 
               {/* Detected Tables */}
-              <div className="bg-white shadow rounded-lg p-6">
-                <h3 className="text-lg font-medium text-gray-900 mb-4">Detected Financial Tables</h3>
-                <div className="space-y-4">
-                  {processedData.detectedTables.map((table, index) => (
-                    <div key={index} className="p-4 bg-gray-50 rounded-lg">
-                      <div className="flex items-center justify-between">
-                        <h4 className="font-medium text-gray-900">{table.name}</h4>
-                        <span className="text-sm text-gray-500">
-                          Confidence: {Math.round(table.confidence * 100)}%
-                        </span>
-                      </div>
-                      <p className="text-sm text-gray-500 mt-1">
-                        {table.rowCount} rows • {table.headers.length} columns
-                      </p>
-                      <div className="mt-2 text-xs text-gray-400">
-                        Headers: {table.headers.join(', ')}
-                      </div>
-                    </div>
-                  ))}
-                </div>
-              </div>
+              <DetectedTablesCard
+                tables={processedData.detectedTables}
+                excludedSheets={processedData.excludedSheets}
+              />
 
               {/* Summary Card */}
               <div className="bg-white shadow rounded-lg p-6">
@@ -92,8 +209,55 @@ function App() {
                     </div>
                   </div>
                 </div>
+                {!processedData.isBalanced && (
+                  <BalanceDiagnostics
+                    difference={processedData.totalDebits - processedData.totalCredits}
+                    hypotheses={processedData.balanceDiagnostics}
+                  />
+                )}
               </div>
 
+              {/* Category Totals */}
+              {processedData.categoryTotals.length > 0 && (
+                <div className="bg-white shadow rounded-lg p-6">
+                  <h3 className="text-lg font-medium text-gray-900 mb-4">Category Totals</h3>
+                  <div className="space-y-1">
+                    {processedData.categoryTotals.map(total => (
+                      <div
+                        key={total.category}
+                        className="flex justify-between items-center py-2 px-4 bg-gray-50 rounded text-sm"
+                      >
+                        <span className="text-gray-600">
+                          {total.category}
+                          <span className="text-xs ml-1 text-gray-400">({total.entryCount} entries)</span>
+                        </span>
+                        <span className={`font-medium ${total.net >= 0 ? 'text-blue-600' : 'text-green-600'}`}>
+                          ${Math.abs(total.net).toLocaleString()}
+                          <span className="text-xs ml-1 text-gray-500">
+                            ({total.net >= 0 ? 'DEBIT' : 'CREDIT'})
+                          </span>
+                        </span>
+                      </div>
+                    ))}
+                  </div>
+                </div>
+              )}
+
+              <FinancialStatementsCard statements={processedData.statements} />
+
+              <RatiosPanel ratios={processedData.ratios} />
+
+              <VariancePanel
+                files={priorCandidates.map(file => ({ id: file.id, label: fileLabel(file, processedFiles) }))}
+                priorFile={prior ? prior.id : null}
+                comparison={comparison}
+                thresholds={varianceThresholds}
+                onSelectPrior={setPriorFile}
+                onChangeThresholds={handleChangeThresholds}
+              />
+
+              <UnusualBalances warnings={processedData.balanceWarnings} />
+
               {/* Totals Summary */}
               {processedData.totalsSummary.length > 0 && (
                 <div className="bg-white shadow rounded-lg p-6">
@@ -132,38 +296,14 @@ function App() {
                 </div>
               )}
 
+              <TotalsReconciliation reconciliations={processedData.totalReconciliations} />
+
               {/* Uncertain Classifications */}
-              {processedData.uncertainClassifications.length > 0 && (
-                <div className="bg-white shadow rounded-lg p-6">
-                  <h3 className="text-lg font-medium text-gray-900 mb-4">Classifications Needing Review</h3>
-                  <div className="space-y-4">
-                    {processedData.uncertainClassifications.map((item, index) => (
-                      <div key={index} className="p-4 bg-yellow-50 rounded-lg">
-                        <div className="flex items-start gap-2">
-                          <Info className="h-5 w-5 text-yellow-500 mt-1" />
-                          <div>
-                            <h4 className="font-medium text-gray-900">
-                              {item.entry.accountCode} - {item.entry.accountName}
-                            </h4>
-                            <div className="mt-2 space-y-2">
-                              {item.possibleClassifications.map((classification, cIndex) => (
-                                <div key={cIndex} className="text-sm">
-                                  <div className="text-gray-700">
-                                    {classification.primary} → {classification.secondary} → {classification.tertiary}
-                                  </div>
-                                  <div className="text-gray-500 text-xs">
-                                    Confidence: {Math.round(classification.confidence * 100)}% • 
-                                    Reasoning: {classification.reasoning}
-                                  </div>
-                                </div>
-                              ))}
-                            </div>
-                          </div>
-                        </div>
-                      </div>
-                    ))}
-                  </div>
-                </div>
+              {processedData.uncertainClassifications.length > 0 && selectedFile && (
+                <ReviewPanel
+                  trialBalance={processedData}
+                  onReclassify={(entry, node, reasoning) => handleReclassify(selectedFile, entry, node, reasoning)}
+                />
               )}
 
               {/* Processing Logs */}
@@ -225,6 +365,7 @@ function App() {
                     <table className="min-w-full divide-y divide-gray-200">
                       <thead className="bg-gray-50">
                         <tr>
+                          <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase">Sheet</th>
                           <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase">Account Code</th>
                           <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase">Account Name</th>
                           <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase">Classification</th>
@@ -234,31 +375,67 @@ function App() {
                       </thead>
                       <tbody className="bg-white divide-y divide-gray-200">
                         {processedData.entries.map((entry, index) => (
-                          <tr key={index} className="hover:bg-gray-50">
-                            <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
-                              {entry.accountCode}
-                            </td>
-                            <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
-                              {entry.accountName}
-                            </td>
-                            <td className="px-6 py-4 whitespace-nowrap text-sm">
-                              <div className="flex flex-col">
-                                <span className="text-gray-900">{entry.classification.primary}</span>
-                                <span className="text-gray-500 text-xs">
-                                  {entry.classification.secondary} → {entry.classification.tertiary}
-                                </span>
-                                <span className="text-gray-400 text-xs">
-                                  Confidence: {Math.round(entry.classification.confidence * 100)}%
-                                </span>
-                              </div>
-                            </td>
-                            <td className="px-6 py-4 whitespace-nowrap text-sm text-right">
-                              {entry.debit > 0 ? `$${entry.debit.toLocaleString()}` : '-'}
-                            </td>
-                            <td className="px-6 py-4 whitespace-nowrap text-sm text-right">
-                              {entry.credit > 0 ? `$${entry.credit.toLocaleString()}` : '-'}
-                            </td>
-                          </tr>
+                          <Fragment key={index}>
+                            <tr className="hover:bg-gray-50">
+                              <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                                <button
+                                  onClick={() => setExpandedEntry(expandedEntry === index ? null : index)}
+                                  className="flex items-center gap-1 hover:text-gray-900"
+                                  title="Show how this classification was scored"
+                                >
+                                  {expandedEntry === index
+                                    ? <ChevronDown className="h-4 w-4" />
+                                    : <ChevronRight className="h-4 w-4" />}
+                                  {entry.sheetName}
+                                </button>
+                              </td>
+                              <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                                {entry.accountCode}
+                              </td>
+                              <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                                {entry.accountName}
+                                {entry.rowCount !== undefined && (
+                                  <span className="block text-xs text-gray-400">
+                                    {entry.rowCount.toLocaleString()} ledger {entry.rowCount === 1 ? 'row' : 'rows'}
+                                  </span>
+                                )}
+                              </td>
+                              <td className="px-6 py-4 whitespace-nowrap text-sm">
+                                <div className="flex flex-col">
+                                  <span className="text-gray-900">{entry.classification.primary}</span>
+                                  <span className="text-gray-500 text-xs">
+                                    {entry.classification.secondary} → {entry.classification.tertiary}
+                                  </span>
+                                  <span className="text-gray-400 text-xs">
+                                    {entry.classification.manual
+                                      ? 'Manually classified'
+                                      : entry.classification.learned
+                                        ? entry.classification.reasoning
+                                        : `Confidence: ${Math.round(entry.classification.confidence * 100)}%`}
+                                  </span>
+                                  {entry.classification.matchedRule && !entry.classification.manual && !entry.classification.learned && (
+                                    <span className="text-gray-400 text-xs">Rule: {entry.classification.matchedRule}</span>
+                                  )}
+                                  {entry.classification.elementId && (
+                                    <span className="text-gray-400 text-xs font-mono">{entry.classification.elementId}</span>
+                                  )}
+                                </div>
+                              </td>
+                              <td className="px-6 py-4 whitespace-nowrap text-sm text-right">
+                                {entry.debit > 0 ? `$${entry.debit.toLocaleString()}` : '-'}
+                              </td>
+                              <td className="px-6 py-4 whitespace-nowrap text-sm text-right">
+                                {entry.credit > 0 ? `$${entry.credit.toLocaleString()}` : '-'}
+                              </td>
+                            </tr>
+                            {expandedEntry === index && (
+                              <tr className="bg-gray-50">
+                                <td colSpan={6} className="px-6 py-3">
+                                  <EvidenceBreakdown classification={entry.classification} />
+                                </td>
+                              </tr>
+                            )}
+                          </Fragment>
                         ))}
                       </tbody>
                     </table>
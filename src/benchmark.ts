@@ -0,0 +1,114 @@
+/**
+ * Headless classification benchmark. Build and run with
+ * `npm run benchmark -- [corpus folder] [--baseline file] [--update-baseline] [--json file] [--verbose]`.
+ * The corpus defaults to the sample in "benchmark/" with its committed baseline.
+ *
+ * The corpus folder holds workbooks next to "<name>.labels.json" files with
+ * the expected classification of each account. Exits with code 1 when any
+ * account regresses against the baseline.
+ */
+import { existsSync, readdirSync, readFileSync, writeFileSync } from 'node:fs';
+import { basename, extname, join } from 'node:path';
+import {
+  BenchmarkBaselineSchema,
+  BenchmarkLabelsSchema,
+  compareWithBaseline,
+  formatBenchmarkReport,
+  runBenchmark,
+  toBaseline
+} from './lib/benchmark';
+import type { BenchmarkCase } from './lib/benchmark';
+import { SUPPORTED_EXTENSIONS } from './lib/fileFormats';
+
+const LABELS_SUFFIX = '.labels.json';
+const DEFAULT_BASELINE = 'baseline.json';
+const DEFAULT_CORPUS = 'benchmark';
+
+interface BenchmarkArgs {
+  corpus: string;
+  baseline: string;
+  updateBaseline: boolean;
+  json?: string;
+  verbose: boolean;
+}
+
+function parseArgs(args: string[]): BenchmarkArgs {
+  const positional: string[] = [];
+  const parsed: Omit<BenchmarkArgs, 'corpus' | 'baseline'> & { baseline?: string } = {
+    updateBaseline: false,
+    verbose: false
+  };
+
+  for (let i = 0; i < args.length; i++) {
+    const arg = args[i];
+    if (arg === '--baseline') parsed.baseline = args[++i];
+    else if (arg === '--json') parsed.json = args[++i];
+    else if (arg === '--update-baseline') parsed.updateBaseline = true;
+    else if (arg === '--verbose') parsed.verbose = true;
+    else if (arg.startsWith('--')) throw new Error(`Unknown option ${arg}`);
+    else positional.push(arg);
+  }
+
+  if (positional.length > 1) throw new Error('Pass at most one corpus folder');
+  const corpus = positional[0] ?? DEFAULT_CORPUS;
+  return { ...parsed, corpus, baseline: parsed.baseline ?? join(corpus, DEFAULT_BASELINE) };
+}
+
+function loadCases(corpus: string): BenchmarkCase[] {
+  const files = readdirSync(corpus).sort();
+  const cases: BenchmarkCase[] = [];
+
+  files
+    .filter(file => SUPPORTED_EXTENSIONS.includes(extname(file).toLowerCase()))
+    .forEach(file => {
+      const labelsPath = join(corpus, `${basename(file, extname(file))}${LABELS_SUFFIX}`);
+      if (!existsSync(labelsPath)) {
+        process.stderr.write(`Skipping ${file}: no ${basename(labelsPath)}\n`);
+        return;
+      }
+
+      const labels = BenchmarkLabelsSchema.safeParse(JSON.parse(readFileSync(labelsPath, 'utf-8')));
+      if (!labels.success) {
+        throw new Error(`Invalid labels in ${labelsPath}: ${labels.error.issues.map(issue => issue.message).join('; ')}`);
+      }
+      cases.push({ name: file, file: new File([readFileSync(join(corpus, file))], file), labels: labels.data });
+    });
+
+  return cases;
+}
+
+async function main() {
+  const args = parseArgs(process.argv.slice(2));
+  const cases = loadCases(args.corpus);
+  if (cases.length === 0) throw new Error(`No labelled workbooks found in ${args.corpus}`);
+
+  // The processor logs every step to the console; keep the report readable
+  const log = console.log;
+  if (!args.verbose) console.log = () => {};
+  const report = await runBenchmark(cases);
+  console.log = log;
+
+  let comparison;
+  if (existsSync(args.baseline) && !args.updateBaseline) {
+    const baseline = BenchmarkBaselineSchema.safeParse(JSON.parse(readFileSync(args.baseline, 'utf-8')));
+    if (!baseline.success) throw new Error(`Invalid baseline in ${args.baseline}`);
+    comparison = compareWithBaseline(report, baseline.data);
+  }
+
+  process.stdout.write(`${formatBenchmarkReport(report, comparison)}\n`);
+
+  if (args.json) {
+    writeFileSync(args.json, JSON.stringify({ ...report, comparison }, null, 2));
+  }
+  if (args.updateBaseline || !existsSync(args.baseline)) {
+    writeFileSync(args.baseline, JSON.stringify(toBaseline(report), null, 2));
+    process.stdout.write(`Baseline written to ${args.baseline}\n`);
+  }
+
+  if (comparison && comparison.regressions.length > 0) process.exitCode = 1;
+}
+
+main().catch(error => {
+  process.stderr.write(`${error instanceof Error ? error.message : String(error)}\n`);
+  process.exitCode = 1;
+});
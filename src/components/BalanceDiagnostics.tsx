@@ -0,0 +1,49 @@
+import type { BalanceHypothesis } from '../lib/types';
+
+interface BalanceDiagnosticsProps {
+  difference: number;
+  hypotheses: BalanceHypothesis[];
+}
+
+function likelihood(score: number): { label: string; style: string } {
+  if (score >= 0.75) return { label: 'likely', style: 'bg-red-100 text-red-800' };
+  if (score >= 0.5) return { label: 'possible', style: 'bg-yellow-100 text-yellow-800' };
+  return { label: 'unlikely', style: 'bg-gray-100 text-gray-700' };
+}
+
+export function BalanceDiagnostics({ difference, hypotheses }: BalanceDiagnosticsProps) {
+  return (
+    <div className="mt-4">
+      <p className="text-sm text-red-600 mb-2">
+        {difference > 0 ? 'Debits exceed credits' : 'Credits exceed debits'} by ${Math.abs(difference).toLocaleString()}.
+        {hypotheses.length === 0 ? ' No usual cause was found.' : ' Likely causes, most likely first:'}
+      </p>
+      <div className="space-y-2">
+        {hypotheses.map(hypothesis => {
+          const { label, style } = likelihood(hypothesis.score);
+          return (
+            <div key={hypothesis.type} className="py-2 px-4 bg-gray-50 rounded text-sm">
+              <div className="flex items-start gap-3">
+                <span className={`inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium ${style}`}>
+                  {label}
+                </span>
+                <p className="text-gray-900">{hypothesis.message}</p>
+              </div>
+              {hypothesis.rows.length > 0 && (
+                <ul className="mt-1 ml-2 text-xs text-gray-500">
+                  {hypothesis.rows.map(row => (
+                    <li key={`${row.sheetName}-${row.rowIndex}`}>
+                      {row.sheetName} row {row.rowIndex + 1}: {[row.accountCode, row.accountName].filter(Boolean).join(' ')}
+                      {row.debit > 0 && ` • Dr $${row.debit.toLocaleString()}`}
+                      {row.credit > 0 && ` • Cr $${row.credit.toLocaleString()}`}
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
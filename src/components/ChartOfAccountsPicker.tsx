@@ -0,0 +1,71 @@
+import { Trash2, Upload } from 'lucide-react';
+import type { ChartOfAccounts } from '../lib/types';
+import { STANDARD_CHART } from '../lib/chartOfAccounts';
+
+interface ChartOfAccountsPickerProps {
+  charts: ChartOfAccounts[];
+  selectedName: string;
+  disabled?: boolean;
+  onSelect: (name: string) => void;
+  onImport: (file: File) => void;
+  onDelete: (name: string) => void;
+}
+
+export function ChartOfAccountsPicker({ charts, selectedName, disabled, onSelect, onImport, onDelete }: ChartOfAccountsPickerProps) {
+  const isStandard = selectedName === STANDARD_CHART.name;
+
+  return (
+    <div className="bg-white shadow rounded-lg p-4 space-y-2">
+      <h3 className="text-sm font-medium text-gray-900">Chart of Accounts</h3>
+      <div className="flex items-center gap-2">
+        <select
+          value={selectedName}
+          onChange={(e) => onSelect(e.target.value)}
+          disabled={disabled}
+          className="flex-1 rounded border-gray-300 text-sm"
+        >
+          <option value={STANDARD_CHART.name}>
+            {STANDARD_CHART.name} ({STANDARD_CHART.accounts.length} accounts)
+          </option>
+          {charts.map(chart => (
+            <option key={chart.name} value={chart.name}>
+              {chart.name} ({chart.accounts.length} accounts)
+            </option>
+          ))}
+        </select>
+        {!isStandard && (
+          <button
+            onClick={() => onDelete(selectedName)}
+            disabled={disabled}
+            className="p-2 text-gray-400 hover:text-red-600 disabled:opacity-50"
+            aria-label={`Delete chart ${selectedName}`}
+          >
+            <Trash2 className="h-4 w-4" />
+          </button>
+        )}
+        <input
+          type="file"
+          accept=".csv,.tsv,.xlsx,.xls,.ods,.json"
+          onChange={(e) => {
+            const file = e.target.files?.[0];
+            if (file) onImport(file);
+            e.target.value = '';
+          }}
+          className="hidden"
+          id="chart-upload"
+        />
+        <label
+          htmlFor="chart-upload"
+          className="flex items-center gap-1 px-3 py-1.5 text-sm bg-white border border-gray-300 rounded cursor-pointer hover:bg-gray-100"
+        >
+          <Upload className="h-4 w-4" />
+          Import
+        </label>
+      </div>
+      <p className="text-xs text-gray-500">
+        Codes and names in the selected chart are matched before keyword rules. Import CSV, XLSX or JSON with
+        code, name, primary, secondary, tertiary and normal balance columns.
+      </p>
+    </div>
+  );
+}
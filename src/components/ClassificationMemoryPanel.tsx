@@ -0,0 +1,171 @@
+import { useState } from 'react';
+import { Brain, ChevronDown, ChevronRight, Pencil, Trash2 } from 'lucide-react';
+import type { LearnedClassification } from '../lib/types';
+import type { ClassificationNode } from '../lib/reclassification';
+
+interface ClassificationMemoryPanelProps {
+  profiles: string[];
+  profile: string;
+  learned: LearnedClassification[];
+  onSelectProfile: (profile: string) => void;
+  onUpdate: (item: LearnedClassification, node: ClassificationNode) => void;
+  onForget: (item: LearnedClassification) => void;
+  onPurge: () => void;
+}
+
+interface LearnedRowProps {
+  item: LearnedClassification;
+  onUpdate: ClassificationMemoryPanelProps['onUpdate'];
+  onForget: ClassificationMemoryPanelProps['onForget'];
+}
+
+function LearnedRow({ item, onUpdate, onForget }: LearnedRowProps) {
+  const [editing, setEditing] = useState(false);
+  const [node, setNode] = useState<ClassificationNode>({
+    primary: item.classification.primary,
+    secondary: item.classification.secondary,
+    tertiary: item.classification.tertiary
+  });
+
+  return (
+    <li className="py-2 text-sm">
+      <div className="flex items-center gap-3">
+        <div className="flex-1 min-w-0">
+          <p className="text-gray-900 truncate">
+            {item.accountCode && <span className="text-gray-500 mr-1">{item.accountCode}</span>}
+            {item.accountName}
+          </p>
+          {!editing && (
+            <p className="text-xs text-gray-500">
+              {item.classification.primary} → {item.classification.secondary} → {item.classification.tertiary}
+              <span className="ml-1 text-gray-400">• {new Date(item.confirmedAt).toLocaleDateString()}</span>
+            </p>
+          )}
+        </div>
+        <button
+          onClick={() => setEditing(!editing)}
+          className="text-gray-400 hover:text-blue-600"
+          aria-label={`Edit ${item.accountName}`}
+        >
+          <Pencil className="h-4 w-4" />
+        </button>
+        <button
+          onClick={() => onForget(item)}
+          className="text-gray-400 hover:text-red-600"
+          aria-label={`Forget ${item.accountName}`}
+        >
+          <Trash2 className="h-4 w-4" />
+        </button>
+      </div>
+      {editing && (
+        <div className="mt-2 flex gap-2">
+          {(['primary', 'secondary', 'tertiary'] as const).map(level => (
+            <input
+              key={level}
+              type="text"
+              value={node[level]}
+              onChange={(e) => setNode(prev => ({ ...prev, [level]: e.target.value }))}
+              className="flex-1 min-w-0 rounded border-gray-300 text-sm"
+            />
+          ))}
+          <button
+            onClick={() => {
+              onUpdate(item, node);
+              setEditing(false);
+            }}
+            disabled={!node.primary.trim()}
+            className="px-3 py-1.5 text-sm bg-blue-500 text-white rounded hover:bg-blue-600 disabled:opacity-50"
+          >
+            Save
+          </button>
+        </div>
+      )}
+    </li>
+  );
+}
+
+export function ClassificationMemoryPanel({
+  profiles,
+  profile,
+  learned,
+  onSelectProfile,
+  onUpdate,
+  onForget,
+  onPurge
+}: ClassificationMemoryPanelProps) {
+  const [expanded, setExpanded] = useState(false);
+  const [newProfile, setNewProfile] = useState('');
+
+  return (
+    <div className="w-full max-w-xl bg-white shadow rounded-lg p-4">
+      <button
+        onClick={() => setExpanded(!expanded)}
+        className="flex w-full items-center gap-2 text-sm font-medium text-gray-900"
+      >
+        {expanded ? <ChevronDown className="h-4 w-4" /> : <ChevronRight className="h-4 w-4" />}
+        <Brain className="h-4 w-4 text-blue-500" />
+        Learned classifications
+        <span className="ml-auto text-xs font-normal text-gray-500">{profile} • {learned.length} accounts</span>
+      </button>
+
+      {expanded && (
+        <div className="mt-3 space-y-3">
+          <p className="text-xs text-gray-500">
+            Classifications you confirm are remembered per client profile and applied to later files before any other rule.
+          </p>
+          <div className="flex gap-2">
+            <select
+              value={profile}
+              onChange={(e) => onSelectProfile(e.target.value)}
+              className="flex-1 rounded border-gray-300 text-sm"
+            >
+              {profiles.map(name => <option key={name} value={name}>{name}</option>)}
+            </select>
+            <input
+              type="text"
+              value={newProfile}
+              placeholder="New profile"
+              onChange={(e) => setNewProfile(e.target.value)}
+              className="flex-1 rounded border-gray-300 text-sm"
+            />
+            <button
+              onClick={() => {
+                onSelectProfile(newProfile.trim());
+                setNewProfile('');
+              }}
+              disabled={!newProfile.trim()}
+              className="px-3 py-1.5 text-sm bg-white border border-gray-300 rounded hover:bg-gray-100 disabled:opacity-50"
+            >
+              Add
+            </button>
+          </div>
+
+          {learned.length === 0 ? (
+            <p className="text-sm text-gray-500">Nothing learned for this profile yet.</p>
+          ) : (
+            <>
+              <ul className="divide-y divide-gray-100 max-h-80 overflow-y-auto">
+                {learned.map(item => (
+                  <LearnedRow
+                    key={`${item.accountCode}|${item.normalizedName}`}
+                    item={item}
+                    onUpdate={onUpdate}
+                    onForget={onForget}
+                  />
+                ))}
+              </ul>
+              <button
+                onClick={() => {
+                  if (window.confirm(`Forget all ${learned.length} learned classifications for ${profile}?`)) onPurge();
+                }}
+                className="text-xs text-red-600 hover:text-red-800"
+              >
+                Purge all for this profile
+              </button>
+            </>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,79 @@
+import { Trash2, Upload } from 'lucide-react';
+import type { CodeRuleSet } from '../lib/types';
+import { BUILT_IN_RULE_SETS } from '../lib/codeRules';
+
+interface CodeRulesPickerProps {
+  ruleSets: CodeRuleSet[];
+  selected: CodeRuleSet;
+  disabled?: boolean;
+  onSelect: (name: string) => void;
+  onImport: (file: File) => void;
+  onDelete: (name: string) => void;
+}
+
+export function CodeRulesPicker({ ruleSets, selected, disabled, onSelect, onImport, onDelete }: CodeRulesPickerProps) {
+  const isBuiltIn = BUILT_IN_RULE_SETS.some(ruleSet => ruleSet.name === selected.name);
+
+  return (
+    <div className="bg-white shadow rounded-lg p-4 space-y-2">
+      <h3 className="text-sm font-medium text-gray-900">Account Numbering Rules</h3>
+      <div className="flex items-center gap-2">
+        <select
+          value={selected.name}
+          onChange={(e) => onSelect(e.target.value)}
+          disabled={disabled}
+          className="flex-1 rounded border-gray-300 text-sm"
+        >
+          <optgroup label="Built in">
+            {BUILT_IN_RULE_SETS.map(ruleSet => (
+              <option key={ruleSet.name} value={ruleSet.name}>{ruleSet.name}</option>
+            ))}
+          </optgroup>
+          {ruleSets.length > 0 && (
+            <optgroup label="Imported">
+              {ruleSets.map(ruleSet => (
+                <option key={ruleSet.name} value={ruleSet.name}>
+                  {ruleSet.name} ({ruleSet.rules.length} rules)
+                </option>
+              ))}
+            </optgroup>
+          )}
+        </select>
+        {!isBuiltIn && (
+          <button
+            onClick={() => onDelete(selected.name)}
+            disabled={disabled}
+            className="p-2 text-gray-400 hover:text-red-600 disabled:opacity-50"
+            aria-label={`Delete rule set ${selected.name}`}
+          >
+            <Trash2 className="h-4 w-4" />
+          </button>
+        )}
+        <input
+          type="file"
+          accept=".json"
+          onChange={(e) => {
+            const file = e.target.files?.[0];
+            if (file) onImport(file);
+            e.target.value = '';
+          }}
+          className="hidden"
+          id="code-rules-upload"
+        />
+        <label
+          htmlFor="code-rules-upload"
+          className="flex items-center gap-1 px-3 py-1.5 text-sm bg-white border border-gray-300 rounded cursor-pointer hover:bg-gray-100"
+        >
+          <Upload className="h-4 w-4" />
+          Import
+        </label>
+      </div>
+      {selected.description && <p className="text-xs text-gray-600">{selected.description}</p>}
+      <p className="text-xs text-gray-500">
+        Codes the chart does not list are classified by the narrowest matching range or pattern. Import JSON with
+        rules such as {'{ "label": "PPE", "match": { "type": "range", "from": "1500", "to": "1599" }, "primary": "Assets" }'};
+        in patterns x or ? matches one character and * any run.
+      </p>
+    </div>
+  );
+}
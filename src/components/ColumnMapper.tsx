@@ -0,0 +1,113 @@
+import { useState } from 'react';
+import { Save } from 'lucide-react';
+import type { ColumnField, ColumnMapping, DetectedTable, MappingTemplate } from '../lib/types';
+import { COLUMN_FIELD_LABELS, isMappingComplete, normalizeHeader } from '../lib/columnResolver';
+
+interface ColumnMapperProps {
+  tables: DetectedTable[];
+  mappings: Record<string, ColumnMapping>;
+  templates: MappingTemplate[];
+  onChange: (tableName: string, mapping: ColumnMapping) => void;
+  onSaveTemplate: (name: string, mapping: ColumnMapping) => void;
+}
+
+export function ColumnMapper({ tables, mappings, templates, onChange, onSaveTemplate }: ColumnMapperProps) {
+  const [templateNames, setTemplateNames] = useState<Record<string, string>>({});
+
+  const updateField = (tableName: string, field: ColumnField, header: string) => {
+    const mapping = { ...mappings[tableName] };
+    if (header) {
+      mapping[field] = header;
+    } else {
+      delete mapping[field];
+    }
+    onChange(tableName, mapping);
+  };
+
+  return (
+    <div className="bg-white shadow rounded-lg p-6">
+      <h3 className="text-lg font-medium text-gray-900 mb-1">Map Columns</h3>
+      <p className="text-sm text-gray-500 mb-4">
+        Some columns could not be identified with confidence. Pick the column holding each field;
+        use either Debit and Credit or a single Net Balance column.
+      </p>
+      <div className="space-y-6">
+        {tables.map(table => {
+          const mapping = mappings[table.name] ?? {};
+          const headers = [...new Set(table.headers.map(normalizeHeader).filter(Boolean))];
+          const templateName = templateNames[table.name] ?? '';
+
+          return (
+            <div key={table.name} className="p-4 bg-gray-50 rounded-lg space-y-4">
+              <div className="flex items-center justify-between">
+                <h4 className="font-medium text-gray-900">{table.name}</h4>
+                <span className="text-sm text-gray-500">{table.sheetName} • {table.range}</span>
+              </div>
+
+              {templates.length > 0 && (
+                <select
+                  value=""
+                  onChange={(e) => {
+                    const template = templates.find(t => t.name === e.target.value);
+                    if (template) onChange(table.name, { ...template.mapping });
+                  }}
+                  className="w-full rounded border-gray-300 text-sm"
+                >
+                  <option value="">Apply a saved template…</option>
+                  {templates.map(template => (
+                    <option key={template.name} value={template.name}>{template.name}</option>
+                  ))}
+                </select>
+              )}
+
+              <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+                {(Object.keys(COLUMN_FIELD_LABELS) as ColumnField[]).map(field => (
+                  <label key={field} className="text-sm text-gray-700">
+                    <span className="block mb-1">{COLUMN_FIELD_LABELS[field]}</span>
+                    <select
+                      value={mapping[field] ?? ''}
+                      onChange={(e) => updateField(table.name, field, e.target.value)}
+                      className="w-full rounded border-gray-300 text-sm"
+                    >
+                      <option value="">Not present</option>
+                      {headers.map(header => (
+                        <option key={header} value={header}>{header}</option>
+                      ))}
+                    </select>
+                  </label>
+                ))}
+              </div>
+
+              {!isMappingComplete(mapping) && (
+                <p className="text-xs text-red-600">
+                  Map an account column and either Debit and Credit or Net Balance.
+                </p>
+              )}
+
+              <div className="flex gap-2">
+                <input
+                  type="text"
+                  value={templateName}
+                  placeholder="Template name"
+                  onChange={(e) => setTemplateNames(prev => ({ ...prev, [table.name]: e.target.value }))}
+                  className="flex-1 rounded border-gray-300 text-sm"
+                />
+                <button
+                  onClick={() => {
+                    onSaveTemplate(templateName, mapping);
+                    setTemplateNames(prev => ({ ...prev, [table.name]: '' }));
+                  }}
+                  disabled={!templateName.trim() || !isMappingComplete(mapping)}
+                  className="flex items-center gap-1 px-3 py-1.5 text-sm bg-white border border-gray-300 rounded hover:bg-gray-100 disabled:opacity-50 disabled:cursor-not-allowed"
+                >
+                  <Save className="h-4 w-4" />
+                  Save as template
+                </button>
+              </div>
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,74 @@
+import type { DetectedTable } from '../lib/types';
+
+interface DetectedTablesCardProps {
+  tables: DetectedTable[];
+  excludedSheets: string[];
+  onToggleSheet?: (sheetName: string) => void;
+}
+
+export function DetectedTablesCard({ tables, excludedSheets, onToggleSheet }: DetectedTablesCardProps) {
+  // Group tables by sheet, keeping workbook order
+  const sheets = tables.reduce((acc, table) => {
+    if (!acc[table.sheetName]) acc[table.sheetName] = [];
+    acc[table.sheetName].push(table);
+    return acc;
+  }, {} as Record<string, DetectedTable[]>);
+
+  return (
+    <div className="bg-white shadow rounded-lg p-6">
+      <h3 className="text-lg font-medium text-gray-900 mb-4">Detected Financial Tables</h3>
+      <div className="space-y-6">
+        {Object.entries(sheets).map(([sheetName, sheetTables]) => {
+          const isExcluded = excludedSheets.includes(sheetName);
+
+          return (
+            <div key={sheetName} className="space-y-2">
+              <div className="flex items-center gap-2">
+                {onToggleSheet ? (
+                  <label className="flex items-center gap-2 cursor-pointer">
+                    <input
+                      type="checkbox"
+                      checked={!isExcluded}
+                      onChange={() => onToggleSheet(sheetName)}
+                      className="h-4 w-4 text-blue-600 rounded border-gray-300"
+                    />
+                    <span className="font-medium text-gray-700">{sheetName}</span>
+                  </label>
+                ) : (
+                  <span className="font-medium text-gray-700">{sheetName}</span>
+                )}
+                {isExcluded && (
+                  <span className="text-xs px-2 py-0.5 rounded-full bg-gray-100 text-gray-500">Excluded</span>
+                )}
+              </div>
+              <div className="space-y-2">
+                {sheetTables.map((table) => (
+                  <div
+                    key={table.name}
+                    className={`p-4 bg-gray-50 rounded-lg ${isExcluded ? 'opacity-50' : ''}`}
+                  >
+                    <div className="flex items-center justify-between">
+                      <h4 className="font-medium text-gray-900">{table.name}</h4>
+                      <span className="text-sm text-gray-500">
+                        Confidence: {Math.round(table.confidence * 100)}%
+                      </span>
+                    </div>
+                    <p className="text-sm text-gray-500 mt-1">
+                      {table.rowCount} rows • {table.headers.length} columns • {table.range}
+                    </p>
+                    <div className="mt-2 text-xs text-gray-400">
+                      Headers: {table.headers.join(', ')}
+                      {table.headerRows.length > 1 && (
+                        <> • combined from rows {table.headerRows.map(row => row + 1).join(', ')}</>
+                      )}
+                    </div>
+                  </div>
+                ))}
+              </div>
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
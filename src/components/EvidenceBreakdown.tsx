@@ -0,0 +1,59 @@
+import type { AccountClassification } from '../lib/types';
+import { SIGNAL_LABELS } from '../lib/evidence';
+
+interface EvidenceBreakdownProps {
+  classification: AccountClassification;
+}
+
+function formatScore(value: number): string {
+  return value.toFixed(2);
+}
+
+export function EvidenceBreakdown({ classification }: EvidenceBreakdownProps) {
+  const evidence = classification.evidence ?? [];
+
+  if (evidence.length === 0) {
+    return <p className="text-xs text-gray-500">{classification.reasoning}</p>;
+  }
+
+  return (
+    <div className="space-y-2">
+      <table className="min-w-full text-xs">
+        <thead>
+          <tr className="text-gray-500 text-left">
+            <th className="pr-4 py-1 font-medium">Signal</th>
+            <th className="pr-4 py-1 font-medium">Detail</th>
+            <th className="pr-4 py-1 font-medium">Matched</th>
+            <th className="pr-4 py-1 font-medium text-right">Strength</th>
+            <th className="pr-4 py-1 font-medium text-right">Weight</th>
+            <th className="py-1 font-medium text-right">Score</th>
+          </tr>
+        </thead>
+        <tbody>
+          {evidence.map((signal, index) => (
+            <tr
+              key={`${signal.type}-${index}`}
+              className={signal.selected ? 'text-gray-900 font-medium' : signal.agrees ? 'text-gray-700' : 'text-gray-400'}
+            >
+              <td className="pr-4 py-1 whitespace-nowrap">
+                {SIGNAL_LABELS[signal.type]}
+                {signal.selected && <span className="ml-1 text-blue-600">selected</span>}
+                {signal.agrees && <span className="ml-1 text-green-600">agrees</span>}
+              </td>
+              <td className="pr-4 py-1">{signal.detail}</td>
+              <td className="pr-4 py-1">{signal.matchedTerms.join(', ') || '-'}</td>
+              <td className="pr-4 py-1 text-right">{formatScore(signal.strength)}</td>
+              <td className="pr-4 py-1 text-right">{formatScore(signal.weight)}</td>
+              <td className="py-1 text-right">{formatScore(signal.score)}</td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+      {classification.scoring && (
+        <p className="text-xs text-gray-500">
+          Confidence: {classification.scoring}
+        </p>
+      )}
+    </div>
+  );
+}
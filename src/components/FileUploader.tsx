@@ -1,68 +1,175 @@
-import React, { useCallback, useState } from 'react';
-import { Upload, AlertCircle } from 'lucide-react';
+import React, { useCallback, useEffect, useRef, useState } from 'react';
+import { Upload, AlertCircle, X } from 'lucide-react';
 import { toast } from 'react-hot-toast';
-import { FinancialProcessor } from '../lib/financialProcessor';
-import { extractTextFromExcel } from '../lib/jigsawApi';
-import type { TrialBalance } from '../lib/types';
+import type { ProcessingProgress } from '../lib/financialProcessor';
+import { ProcessingCancelledError, ProcessingWorkerClient } from '../lib/processingClient';
+import type { WorkerProcessingOptions } from '../lib/processingClient';
+import { getConfiguredLabelProvider } from '../lib/labelProviders';
+import type { ColumnMapping, DetectedTable, LearnedClassification, TrialBalance } from '../lib/types';
+import { isMappingComplete, resolveColumns } from '../lib/columnResolver';
+import { columnSynonymsFor, KEYWORD_LOCALES, KEYWORD_PACKS } from '../lib/keywordPacks';
+import type { KeywordLocaleSetting } from '../lib/keywordPacks';
+import { FRAMEWORK_DETAILS, loadSelectedFramework, REPORTING_FRAMEWORKS, saveSelectedFramework } from '../lib/taxonomy';
+import type { ReportingFramework } from '../lib/taxonomy';
+import { findMatchingTemplate, loadMappingTemplates, saveMappingTemplate } from '../lib/mappingTemplates';
+import { detectInputFormat, SUPPORTED_EXTENSIONS } from '../lib/fileFormats';
+import { DEFAULT_MAX_FILE_SIZE_MB } from '../lib/constants';
+import { DetectedTablesCard } from './DetectedTablesCard';
+import { ColumnMapper } from './ColumnMapper';
+import { UploadQueue } from './UploadQueue';
+import { ChartOfAccountsPicker } from './ChartOfAccountsPicker';
+import {
+  deleteChart,
+  importChartFile,
+  loadCharts,
+  loadSelectedChartName,
+  saveChart,
+  saveSelectedChartName,
+  STANDARD_CHART
+} from '../lib/chartOfAccounts';
+import { CodeRulesPicker } from './CodeRulesPicker';
+import {
+  BUILT_IN_RULE_SETS,
+  DEFAULT_RULE_SET,
+  deleteRuleSet,
+  importRuleSetFile,
+  loadRuleSets,
+  loadSelectedRuleSetName,
+  saveRuleSet,
+  saveSelectedRuleSetName
+} from '../lib/codeRules';
+import type { QueueItem } from './UploadQueue';
 
 interface FileUploaderProps {
-  onDataProcessed: (data: TrialBalance) => void;
+  onDataProcessed: (data: TrialBalance, id: string, fileName: string) => void;
+  /** Confirmed classifications of the active profile, applied before other rules */
+  learnedClassifications: LearnedClassification[];
 }
 
-const MAX_FILE_SIZE = 10 * 1024 * 1024; // 10MB
-const ALLOWED_FILE_TYPES = [
-  'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet', // .xlsx
-  'application/vnd.ms-excel' // .xls
-];
+const MAX_FILE_SIZE_MB = Number(import.meta.env.VITE_MAX_FILE_SIZE_MB) || DEFAULT_MAX_FILE_SIZE_MB;
+const MAX_FILE_SIZE = MAX_FILE_SIZE_MB * 1024 * 1024;
+const SUPPORTED_TYPES_LABEL = SUPPORTED_EXTENSIONS.join(', ');
+const labelProvider = getConfiguredLabelProvider();
 
-export function FileUploader({ onDataProcessed }: FileUploaderProps) {
+// Stages before classification have no row counts, so they get fixed positions on the bar
+const STAGE_PROGRESS: Record<ProcessingProgress['stage'], number> = {
+  reading: 5,
+  detecting: 15,
+  classifying: 20,
+  totals: 95
+};
+
+function progressPercent(progress: ProcessingProgress | null): number {
+  if (!progress) return 0;
+  if (progress.stage === 'classifying' && progress.total) {
+    return STAGE_PROGRESS.classifying + ((progress.current ?? 0) / progress.total) * (STAGE_PROGRESS.totals - STAGE_PROGRESS.classifying);
+  }
+  return STAGE_PROGRESS[progress.stage];
+}
+
+interface PendingWorkbook {
+  item: QueueItem;
+  tables: DetectedTable[];
+  stage: 'sheets' | 'columns';
+  /** Tables whose columns could not be resolved with confidence */
+  uncertainTables: string[];
+}
+
+export function FileUploader({ onDataProcessed, learnedClassifications }: FileUploaderProps) {
   const [isProcessing, setIsProcessing] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  const [pending, setPending] = useState<PendingWorkbook | null>(null);
+  const [excludedSheets, setExcludedSheets] = useState<string[]>([]);
+  const [columnMappings, setColumnMappings] = useState<Record<string, ColumnMapping>>({});
+  const [templates, setTemplates] = useState(loadMappingTemplates);
+  const [progress, setProgress] = useState<ProcessingProgress | null>(null);
+  const [alwaysAggregate, setAlwaysAggregate] = useState(false);
+  const [keywordLocale, setKeywordLocale] = useState<KeywordLocaleSetting>('auto');
+  const [reportingFramework, setReportingFramework] = useState(loadSelectedFramework);
+  const [queue, setQueue] = useState<QueueItem[]>([]);
+  const [charts, setCharts] = useState(loadCharts);
+  const [selectedChartName, setSelectedChartName] = useState(loadSelectedChartName);
+  const selectedChart = charts.find(chart => chart.name === selectedChartName) ?? STANDARD_CHART;
+  const [ruleSets, setRuleSets] = useState(loadRuleSets);
+  const [selectedRuleSetName, setSelectedRuleSetName] = useState(loadSelectedRuleSetName);
+  const selectedRuleSet = [...BUILT_IN_RULE_SETS, ...ruleSets]
+    .find(ruleSet => ruleSet.name === selectedRuleSetName) ?? DEFAULT_RULE_SET;
+  const workerRef = useRef<ProcessingWorkerClient | null>(null);
 
-  const validateFile = (file: File): boolean => {
-    setError(null);
+  const getWorker = () => {
+    if (!workerRef.current) workerRef.current = new ProcessingWorkerClient();
+    return workerRef.current;
+  };
+
+  useEffect(() => () => workerRef.current?.cancel(), []);
+
+  const updateItem = useCallback((id: string, changes: Partial<QueueItem>) => {
+    setQueue(prev => prev.map(item => item.id === id ? { ...item, ...changes } : item));
+  }, []);
+
+  const handleFailure = useCallback((item: QueueItem, error: unknown) => {
+    if (error instanceof ProcessingCancelledError) {
+      updateItem(item.id, { status: 'failed', error: 'Cancelled' });
+      toast(`Processing cancelled for ${item.file.name}`, { icon: '⏹️' });
+      return;
+    }
+    console.error('Error processing file:', error);
+    const errorMessage = error instanceof Error ? error.message : 'Error processing file';
+    updateItem(item.id, { status: 'failed', error: errorMessage });
+    setError(`${item.file.name}: ${errorMessage}`);
+    toast.error(`${item.file.name}: ${errorMessage}`);
+  }, [updateItem]);
 
+  const validateFile = (file: File): string | null => {
     // Check file size
     if (file.size > MAX_FILE_SIZE) {
-      setError('File size exceeds 10MB limit');
-      toast.error('File size exceeds 10MB limit');
-      return false;
+      return `File size exceeds ${MAX_FILE_SIZE_MB}MB limit`;
     }
 
     // Check file type
-    if (!ALLOWED_FILE_TYPES.includes(file.type)) {
-      setError('Please upload an Excel file (.xlsx or .xls)');
-      toast.error('Please upload an Excel file (.xlsx or .xls)');
-      return false;
+    if (!detectInputFormat(file)) {
+      return `Please upload a spreadsheet or delimited text file (${SUPPORTED_TYPES_LABEL})`;
     }
 
-    return true;
+    return null;
   };
 
-  const processFile = useCallback(async (file: File) => {
-    if (!validateFile(file)) return;
-
-    setIsProcessing(true);
+  const enqueueFiles = (files: File[]) => {
+    if (files.length === 0) return;
     setError(null);
 
-    try {
-      // First, use JigsawStack to analyze the Excel file
-      const buffer = await file.arrayBuffer();
-      console.log('Processing file with JigsawStack...');
-      const labels = await extractTextFromExcel(buffer);
-      
-      console.log('JigsawStack identified labels:', labels);
+    const items = files.map((file): QueueItem => {
+      const error = validateFile(file);
+      if (error) toast.error(`${file.name}: ${error}`);
+      return { id: crypto.randomUUID(), file, status: error ? 'failed' : 'queued', error: error ?? undefined };
+    });
+    setQueue(prev => [...prev, ...items]);
+  };
 
-      if (!labels.length) {
-        throw new Error('No labels identified in the file');
-      }
+  const buildEntries = useCallback(async (item: QueueItem, options: WorkerProcessingOptions) => {
+    const { file } = item;
+    setIsProcessing(true);
+    setProgress(null);
 
-      // Process the file with enhanced label information
-      const trialBalance = await FinancialProcessor.processFile(file, labels);
+    try {
+      // Leave aggregation to the processor's row threshold unless the user asked for it
+      const trialBalance = await getWorker().process(
+        file,
+        {
+          ...options,
+          aggregateByAccount: alwaysAggregate || undefined,
+          keywordLocale,
+          reportingFramework,
+          chartOfAccounts: selectedChart,
+          codeRuleSet: selectedRuleSet,
+          learnedClassifications
+        },
+        setProgress
+      );
       
       // Show warnings for uncertain classifications
       if (trialBalance.uncertainClassifications.length > 0) {
-        toast(`${trialBalance.uncertainClassifications.length} accounts need classification review`, {
+        toast(`${file.name}: ${trialBalance.uncertainClassifications.length} accounts need classification review`, {
           icon: '⚠️',
           duration: 5000
         });
@@ -70,7 +177,7 @@ export function FileUploader({ onDataProcessed }: FileUploaderProps) {
 
       // Show warning for unmatched entries
       if (trialBalance.unmatchedEntries.length > 0) {
-        toast(`${trialBalance.unmatchedEntries.length} entries could not be confidently classified`, {
+        toast(`${file.name}: ${trialBalance.unmatchedEntries.length} entries could not be confidently classified`, {
           icon: '❓',
           duration: 5000
         });
@@ -78,38 +185,250 @@ export function FileUploader({ onDataProcessed }: FileUploaderProps) {
       
       // Show warning for unbalanced trial balance
       if (!trialBalance.isBalanced) {
-        toast.error('Warning: Trial balance is not balanced!');
+        toast.error(`Warning: Trial balance in ${file.name} is not balanced!`);
       }
       
-      onDataProcessed(trialBalance);
-      toast.success('File processed successfully!');
+      setPending(null);
+      updateItem(item.id, { status: 'done' });
+      onDataProcessed(trialBalance, item.id, file.name);
+      toast.success(`${file.name} processed successfully!`);
     } catch (error) {
-      console.error('Error processing file:', error);
-      const errorMessage = error instanceof Error ? error.message : 'Error processing file';
-      setError(errorMessage);
-      toast.error(errorMessage);
+      setPending(null);
+      handleFailure(item, error);
     } finally {
       setIsProcessing(false);
+      setProgress(null);
     }
-  }, [onDataProcessed]);
+  }, [onDataProcessed, alwaysAggregate, keywordLocale, reportingFramework, selectedChart, selectedRuleSet, learnedClassifications, updateItem, handleFailure]);
 
-  const handleDrop = useCallback((e: React.DragEvent<HTMLDivElement>) => {
-    e.preventDefault();
-    const file = e.dataTransfer.files[0];
-    if (file) {
-      processFile(file);
+  const processFile = useCallback(async (item: QueueItem) => {
+    const { file } = item;
+    updateItem(item.id, { status: 'processing' });
+    setIsProcessing(true);
+    setPending(null);
+    setProgress(null);
+
+    try {
+      const tables = await getWorker().detect(file, { keywordLocale }, setProgress);
+      if (tables.length === 0) {
+        throw new Error('No financial tables detected in the file');
+      }
+
+      // Start from a saved template or the resolver's best guess for each table
+      const mappings: Record<string, ColumnMapping> = {};
+      const uncertainTables: string[] = [];
+      tables.forEach(table => {
+        const template = findMatchingTemplate(templates, table.headers);
+        if (template) {
+          mappings[table.name] = { ...template.mapping };
+          return;
+        }
+        const resolution = resolveColumns(table.headers, columnSynonymsFor(table.keywordLocale));
+        mappings[table.name] = resolution.mapping;
+        if (!resolution.isConfident) uncertainTables.push(table.name);
+      });
+      setColumnMappings(mappings);
+      setExcludedSheets([]);
+
+      // Let the user pick sheets when tables were found on more than one
+      const sheetNames = new Set(tables.map(table => table.sheetName));
+      if (sheetNames.size > 1 || uncertainTables.length > 0) {
+        setPending({
+          item,
+          tables,
+          stage: sheetNames.size > 1 ? 'sheets' : 'columns',
+          uncertainTables
+        });
+        setIsProcessing(false);
+        return;
+      }
+
+      await buildEntries(item, { columnMappings: mappings });
+    } catch (error) {
+      handleFailure(item, error);
+      setIsProcessing(false);
+      setProgress(null);
     }
-  }, [processFile]);
+  }, [buildEntries, templates, keywordLocale, updateItem, handleFailure]);
 
-  const handleFileInput = useCallback((e: React.ChangeEvent<HTMLInputElement>) => {
-    const file = e.target.files?.[0];
-    if (file) {
-      processFile(file);
+  // Work through the queue one file at a time, pausing while a file waits for sheet or column choices
+  useEffect(() => {
+    if (isProcessing || pending) return;
+    const next = queue.find(item => item.status === 'queued');
+    if (next) processFile(next);
+  }, [queue, isProcessing, pending, processFile]);
+
+  const continueFromSheets = (workbook: PendingWorkbook) => {
+    const needsMapping = workbook.tables.some(table =>
+      workbook.uncertainTables.includes(table.name) && !excludedSheets.includes(table.sheetName)
+    );
+    if (needsMapping) {
+      setPending({ ...workbook, stage: 'columns' });
+      return;
     }
-  }, [processFile]);
+    buildEntries(workbook.item, { excludedSheets, columnMappings });
+  };
+
+  const skipPending = (workbook: PendingWorkbook) => {
+    updateItem(workbook.item.id, { status: 'failed', error: 'Skipped' });
+    setPending(null);
+  };
+
+  const handleSaveTemplate = (name: string, mapping: ColumnMapping) => {
+    setTemplates(saveMappingTemplate(name, mapping));
+    toast.success(`Saved mapping template "${name.trim()}"`);
+  };
+
+  const selectChart = (name: string) => {
+    setSelectedChartName(name);
+    saveSelectedChartName(name);
+  };
+
+  const handleImportChart = async (file: File) => {
+    try {
+      const chart = await importChartFile(file);
+      // Keep the built-in chart reachable under its own name
+      if (chart.name === STANDARD_CHART.name) chart.name = `${chart.name} (imported)`;
+      setCharts(saveChart(chart));
+      selectChart(chart.name);
+      toast.success(`Imported ${chart.accounts.length} accounts into "${chart.name}"`);
+    } catch (error) {
+      console.error('Error importing chart of accounts:', error);
+      toast.error(`Could not import chart: ${error instanceof Error ? error.message : 'invalid file'}`);
+    }
+  };
+
+  const handleDeleteChart = (name: string) => {
+    setCharts(deleteChart(name));
+    selectChart(STANDARD_CHART.name);
+    toast.success(`Deleted chart "${name}"`);
+  };
+
+  const selectRuleSet = (name: string) => {
+    setSelectedRuleSetName(name);
+    saveSelectedRuleSetName(name);
+  };
+
+  const handleImportRuleSet = async (file: File) => {
+    try {
+      const ruleSet = await importRuleSetFile(file);
+      if (BUILT_IN_RULE_SETS.some(builtIn => builtIn.name === ruleSet.name)) ruleSet.name = `${ruleSet.name} (imported)`;
+      setRuleSets(saveRuleSet(ruleSet));
+      selectRuleSet(ruleSet.name);
+      toast.success(`Imported ${ruleSet.rules.length} rules into "${ruleSet.name}"`);
+    } catch (error) {
+      console.error('Error importing code rules:', error);
+      toast.error(`Could not import rules: ${error instanceof Error ? error.message : 'invalid file'}`);
+    }
+  };
+
+  const handleDeleteRuleSet = (name: string) => {
+    setRuleSets(deleteRuleSet(name));
+    selectRuleSet(DEFAULT_RULE_SET.name);
+    toast.success(`Deleted rule set "${name}"`);
+  };
+
+  const toggleSheet = (sheetName: string) => {
+    setExcludedSheets(prev =>
+      prev.includes(sheetName)
+        ? prev.filter(name => name !== sheetName)
+        : [...prev, sheetName]
+    );
+  };
+
+  const handleDrop = (e: React.DragEvent<HTMLDivElement>) => {
+    e.preventDefault();
+    enqueueFiles(Array.from(e.dataTransfer.files));
+  };
+
+  const handleFileInput = (e: React.ChangeEvent<HTMLInputElement>) => {
+    enqueueFiles(Array.from(e.target.files ?? []));
+    // Allow the same files to be selected again later
+    e.target.value = '';
+  };
+
+  const queueList = queue.length > 0 && (
+    <UploadQueue
+      items={queue}
+      onRemove={(id) => setQueue(prev => prev.filter(item => item.id !== id))}
+      onClearFinished={() => setQueue(prev => prev.filter(item => item.status === 'queued' || item.status === 'processing'))}
+    />
+  );
+
+  if (pending && !isProcessing) {
+    if (pending.stage === 'columns') {
+      const tablesToMap = pending.tables.filter(table =>
+        pending.uncertainTables.includes(table.name) && !excludedSheets.includes(table.sheetName)
+      );
+      const allMapped = tablesToMap.every(table => isMappingComplete(columnMappings[table.name] ?? {}));
+
+      return (
+        <div className="w-full max-w-4xl space-y-4">
+          <p className="text-sm text-gray-600">
+            Confirm the columns of <span className="font-medium">{pending.item.file.name}</span>.
+          </p>
+          <ColumnMapper
+            tables={tablesToMap}
+            mappings={columnMappings}
+            templates={templates}
+            onChange={(tableName, mapping) => setColumnMappings(prev => ({ ...prev, [tableName]: mapping }))}
+            onSaveTemplate={handleSaveTemplate}
+          />
+          <div className="flex justify-end gap-3">
+            <button
+              onClick={() => skipPending(pending)}
+              className="px-4 py-2 text-gray-600 hover:text-gray-800"
+            >
+              Skip File
+            </button>
+            <button
+              onClick={() => buildEntries(pending.item, { excludedSheets, columnMappings })}
+              disabled={!allMapped}
+              className="px-4 py-2 bg-blue-500 text-white rounded-lg hover:bg-blue-600 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              Build Entries
+            </button>
+          </div>
+          {queueList}
+        </div>
+      );
+    }
+
+    const allExcluded = pending.tables.every(table => excludedSheets.includes(table.sheetName));
+
+    return (
+      <div className="w-full max-w-4xl space-y-4">
+        <p className="text-sm text-gray-600">
+          Financial tables were found on several sheets of <span className="font-medium">{pending.item.file.name}</span>.
+          Choose which sheets to include before entries are built.
+        </p>
+        <DetectedTablesCard
+          tables={pending.tables}
+          excludedSheets={excludedSheets}
+          onToggleSheet={toggleSheet}
+        />
+        <div className="flex justify-end gap-3">
+          <button
+            onClick={() => skipPending(pending)}
+            className="px-4 py-2 text-gray-600 hover:text-gray-800"
+          >
+            Skip File
+          </button>
+          <button
+            onClick={() => continueFromSheets(pending)}
+            disabled={allExcluded}
+            className="px-4 py-2 bg-blue-500 text-white rounded-lg hover:bg-blue-600 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            Continue
+          </button>
+        </div>
+        {queueList}
+      </div>
+    );
+  }
 
   return (
-    <div className="w-full max-w-xl">
+    <div className="w-full max-w-xl space-y-4">
       <div
         onDrop={handleDrop}
         onDragOver={(e) => e.preventDefault()}
@@ -124,7 +443,20 @@ export function FileUploader({ onDataProcessed }: FileUploaderProps) {
         {isProcessing ? (
           <div className="flex flex-col items-center gap-3">
             <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-500" />
-            <p className="text-gray-600">Processing file...</p>
+            <p className="text-gray-600">{progress?.message ?? 'Processing file...'}</p>
+            <div className="w-full h-2 bg-gray-200 rounded-full overflow-hidden">
+              <div
+                className="h-full bg-blue-500 transition-all"
+                style={{ width: `${progressPercent(progress)}%` }}
+              />
+            </div>
+            <button
+              onClick={() => workerRef.current?.cancel()}
+              className="flex items-center gap-1 text-sm text-gray-600 hover:text-red-600"
+            >
+              <X className="h-4 w-4" />
+              Cancel
+            </button>
           </div>
         ) : error ? (
           <div className="flex flex-col items-center gap-3">
@@ -145,11 +477,13 @@ export function FileUploader({ onDataProcessed }: FileUploaderProps) {
             <Upload className="mx-auto mb-4 text-gray-400" size={48} />
             <h3 className="mb-2 text-lg font-semibold">Upload Financial Data</h3>
             <p className="mb-4 text-sm text-gray-500">
-              Upload your Trial Balance, Balance Sheet, or other financial statements in XLSX format
+              Upload your Trial Balance, Balance Sheet, or other financial statements as a spreadsheet or CSV export.
+              Drop several files to process them one after another.
             </p>
             <input
               type="file"
-              accept=".xlsx,.xls"
+              multiple
+              accept={SUPPORTED_EXTENSIONS.join(',')}
               onChange={handleFileInput}
               className="hidden"
               id="file-upload"
@@ -158,14 +492,76 @@ export function FileUploader({ onDataProcessed }: FileUploaderProps) {
               htmlFor="file-upload"
               className="inline-block px-6 py-2 bg-blue-500 text-white rounded-lg cursor-pointer hover:bg-blue-600 transition-colors"
             >
-              Select File
+              Select Files
             </label>
           </>
         )}
       </div>
-      <div className="mt-4 text-sm text-gray-500">
-        <p>Supported file types: .xlsx, .xls</p>
-        <p>Maximum file size: 10MB</p>
+      {queueList}
+      <ChartOfAccountsPicker
+        charts={charts}
+        selectedName={selectedChart.name}
+        disabled={isProcessing}
+        onSelect={selectChart}
+        onImport={handleImportChart}
+        onDelete={handleDeleteChart}
+      />
+      <CodeRulesPicker
+        ruleSets={ruleSets}
+        selected={selectedRuleSet}
+        disabled={isProcessing}
+        onSelect={selectRuleSet}
+        onImport={handleImportRuleSet}
+        onDelete={handleDeleteRuleSet}
+      />
+      <div className="text-sm text-gray-500">
+        <p>Supported file types: {SUPPORTED_TYPES_LABEL}</p>
+        <p>CSV delimiter, encoding and decimal separator are detected automatically</p>
+        <p>
+          Column labels: {labelProvider.name}
+          {labelProvider.isRemote && ' (file contents are sent to an external service)'}
+        </p>
+        <p>Maximum file size: {MAX_FILE_SIZE_MB}MB</p>
+        <label className="flex items-center gap-2 mt-2">
+          <input
+            type="checkbox"
+            checked={alwaysAggregate}
+            onChange={(e) => setAlwaysAggregate(e.target.checked)}
+            className="rounded border-gray-300"
+          />
+          Always aggregate rows per account (large ledgers are aggregated automatically)
+        </label>
+        <label className="flex items-center gap-2 mt-2">
+          Keyword language
+          <select
+            value={keywordLocale}
+            onChange={(e) => setKeywordLocale(e.target.value as KeywordLocaleSetting)}
+            disabled={isProcessing}
+            className="rounded border-gray-300 text-sm"
+          >
+            <option value="auto">Detect from headers</option>
+            {KEYWORD_LOCALES.map(locale => (
+              <option key={locale} value={locale}>{KEYWORD_PACKS[locale].label}</option>
+            ))}
+          </select>
+        </label>
+        <label className="flex items-center gap-2 mt-2">
+          Reporting framework
+          <select
+            value={reportingFramework}
+            onChange={(e) => {
+              const framework = e.target.value as ReportingFramework;
+              setReportingFramework(framework);
+              saveSelectedFramework(framework);
+            }}
+            disabled={isProcessing}
+            className="rounded border-gray-300 text-sm"
+          >
+            {REPORTING_FRAMEWORKS.map(framework => (
+              <option key={framework} value={framework}>{FRAMEWORK_DETAILS[framework].label}</option>
+            ))}
+          </select>
+        </label>
       </div>
     </div>
   );
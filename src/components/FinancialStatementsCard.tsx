@@ -0,0 +1,60 @@
+import type { FinancialStatements, StatementLine } from '../lib/types';
+
+interface FinancialStatementsCardProps {
+  statements: FinancialStatements;
+}
+
+const LINE_STYLES: Record<StatementLine['kind'], string> = {
+  heading: 'font-medium text-gray-900 pt-2',
+  item: 'text-gray-600',
+  subtotal: 'font-medium text-gray-800 border-t border-gray-200',
+  total: 'font-semibold text-gray-900 border-t-2 border-gray-300'
+};
+
+function formatAmount(amount: number): string {
+  const formatted = `$${Math.abs(amount).toLocaleString(undefined, { maximumFractionDigits: 2 })}`;
+  return amount < 0 ? `(${formatted})` : formatted;
+}
+
+function StatementTable({ title, lines }: { title: string; lines: StatementLine[] }) {
+  return (
+    <div>
+      <h4 className="font-medium text-gray-700 mb-2">{title}</h4>
+      <div className="text-sm">
+        {lines.map((line, index) => (
+          <div
+            key={`${line.kind}-${line.label}-${index}`}
+            className={`flex justify-between py-1 ${LINE_STYLES[line.kind]}`}
+            style={{ paddingLeft: `${line.depth}rem` }}
+          >
+            <span>{line.label}</span>
+            {line.amount !== null && <span>{formatAmount(line.amount)}</span>}
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
+
+export function FinancialStatementsCard({ statements }: FinancialStatementsCardProps) {
+  const { balanceSheet, incomeStatement, unclassified } = statements;
+
+  return (
+    <div className="bg-white shadow rounded-lg p-6">
+      <h3 className="text-lg font-medium text-gray-900 mb-1">Financial Statements</h3>
+      <p className="text-sm text-gray-500 mb-4">
+        Built from the classified entries; the net profit for the period is carried into equity.
+      </p>
+      {!balanceSheet.isBalanced && (
+        <p className="text-sm text-red-600 mb-4">
+          The statement of financial position is out by {formatAmount(balanceSheet.difference)}
+          {unclassified.entryCount > 0 && ` with ${unclassified.entryCount} unclassified entries`}.
+        </p>
+      )}
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-8">
+        <StatementTable title="Statement of Profit or Loss" lines={incomeStatement.lines} />
+        <StatementTable title="Statement of Financial Position" lines={balanceSheet.lines} />
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,51 @@
+import { AlertTriangle } from 'lucide-react';
+import type { FinancialRatio } from '../lib/types';
+
+interface RatiosPanelProps {
+  ratios: FinancialRatio[];
+}
+
+function formatRatioValue(ratio: FinancialRatio): string {
+  if (ratio.value === null) return 'n/a';
+  if (ratio.unit === 'percent') return `${ratio.value.toFixed(1)}%`;
+  if (ratio.unit === 'days') return `${Math.round(ratio.value)} days`;
+  return `${ratio.value.toFixed(2)}×`;
+}
+
+export function RatiosPanel({ ratios }: RatiosPanelProps) {
+  if (ratios.length === 0) return null;
+
+  return (
+    <div className="bg-white shadow rounded-lg p-6">
+      <h3 className="text-lg font-medium text-gray-900 mb-1">Financial Ratios</h3>
+      <p className="text-sm text-gray-500 mb-4">
+        Calculated from the financial statements. Flagged ratios have missing inputs or rest on
+        classifications that still need review.
+      </p>
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+        {ratios.map(ratio => (
+          <div key={ratio.id} className="p-4 bg-gray-50 rounded text-sm">
+            <div className="flex items-center justify-between">
+              <span className="font-medium text-gray-900">{ratio.label}</span>
+              <span className={`font-medium ${ratio.value === null ? 'text-gray-400' : 'text-blue-600'}`}>
+                {formatRatioValue(ratio)}
+              </span>
+            </div>
+            <p className="text-xs text-gray-500 mt-1">{ratio.formula}</p>
+            <p className="text-xs text-gray-400 mt-1">
+              {ratio.inputs
+                .map(input => `${input.label}: ${input.missing ? 'none' : `$${input.amount.toLocaleString()}`}`)
+                .join(' • ')}
+            </p>
+            {ratio.flags.map(flag => (
+              <p key={flag} className="flex items-center gap-1 text-xs text-yellow-700 mt-1">
+                <AlertTriangle className="h-3 w-3" />
+                {flag}
+              </p>
+            ))}
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
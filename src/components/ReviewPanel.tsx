@@ -0,0 +1,136 @@
+import { useState } from 'react';
+import { Check, Info } from 'lucide-react';
+import type { FinancialEntry, TrialBalance } from '../lib/types';
+import { classificationLabel, listClassificationNodes } from '../lib/reclassification';
+import type { ClassificationNode } from '../lib/reclassification';
+
+interface ReviewPanelProps {
+  trialBalance: TrialBalance;
+  onReclassify: (entry: FinancialEntry, node: ClassificationNode, reasoning: string) => void;
+}
+
+const CUSTOM_OPTION = '__custom__';
+
+interface ReclassifyFormProps {
+  entry: FinancialEntry;
+  nodes: ClassificationNode[];
+  onReclassify: ReviewPanelProps['onReclassify'];
+}
+
+function ReclassifyForm({ entry, nodes, onReclassify }: ReclassifyFormProps) {
+  const [selected, setSelected] = useState('');
+  const [custom, setCustom] = useState<ClassificationNode>({ primary: '', secondary: '', tertiary: '' });
+  const [reasoning, setReasoning] = useState('');
+
+  const node = selected === CUSTOM_OPTION
+    ? custom
+    : nodes.find(candidate => classificationLabel(candidate) === selected);
+  const canApply = Boolean(node && node.primary.trim());
+
+  // Group the hierarchy by primary category for the picker
+  const groups = nodes.reduce((acc, candidate) => {
+    if (!acc[candidate.primary]) acc[candidate.primary] = [];
+    acc[candidate.primary].push(candidate);
+    return acc;
+  }, {} as Record<string, ClassificationNode[]>);
+
+  return (
+    <div className="mt-3 space-y-2">
+      <select
+        value={selected}
+        onChange={(e) => setSelected(e.target.value)}
+        className="w-full rounded border-gray-300 text-sm"
+      >
+        <option value="">Choose a classification…</option>
+        {Object.entries(groups).map(([primary, groupNodes]) => (
+          <optgroup key={primary} label={primary}>
+            {groupNodes.map(candidate => {
+              const label = classificationLabel(candidate);
+              return <option key={label} value={label}>{candidate.secondary} → {candidate.tertiary}</option>;
+            })}
+          </optgroup>
+        ))}
+        <option value={CUSTOM_OPTION}>Custom classification…</option>
+      </select>
+
+      {selected === CUSTOM_OPTION && (
+        <div className="grid grid-cols-1 sm:grid-cols-3 gap-2">
+          {(['primary', 'secondary', 'tertiary'] as const).map(level => (
+            <input
+              key={level}
+              type="text"
+              value={custom[level]}
+              placeholder={level[0].toUpperCase() + level.slice(1)}
+              onChange={(e) => setCustom(prev => ({ ...prev, [level]: e.target.value }))}
+              className="rounded border-gray-300 text-sm"
+            />
+          ))}
+        </div>
+      )}
+
+      <div className="flex gap-2">
+        <input
+          type="text"
+          value={reasoning}
+          placeholder="Reasoning (optional)"
+          onChange={(e) => setReasoning(e.target.value)}
+          className="flex-1 rounded border-gray-300 text-sm"
+        />
+        <button
+          onClick={() => node && onReclassify(entry, node, reasoning)}
+          disabled={!canApply}
+          className="px-3 py-1.5 text-sm bg-blue-500 text-white rounded hover:bg-blue-600 disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          Apply
+        </button>
+      </div>
+    </div>
+  );
+}
+
+export function ReviewPanel({ trialBalance, onReclassify }: ReviewPanelProps) {
+  const nodes = listClassificationNodes(trialBalance.entries);
+
+  return (
+    <div className="bg-white shadow rounded-lg p-6">
+      <h3 className="text-lg font-medium text-gray-900 mb-4">Classifications Needing Review</h3>
+      <div className="space-y-4">
+        {trialBalance.uncertainClassifications.map((item) => (
+          <div key={`${item.entry.sheetName}|${item.entry.sourceTable}|${item.entry.rowIndex}`} className="p-4 bg-yellow-50 rounded-lg">
+            <div className="flex items-start gap-2">
+              <Info className="h-5 w-5 text-yellow-500 mt-1" />
+              <div className="flex-1">
+                <h4 className="font-medium text-gray-900">
+                  {item.entry.accountCode} - {item.entry.accountName}
+                </h4>
+                <div className="mt-2 space-y-2">
+                  {item.possibleClassifications.map((classification, cIndex) => (
+                    <div key={cIndex} className="flex items-start justify-between gap-2 text-sm">
+                      <div>
+                        <div className="text-gray-700">
+                          {classification.primary} → {classification.secondary} → {classification.tertiary}
+                        </div>
+                        <div className="text-gray-500 text-xs">
+                          Confidence: {Math.round(classification.confidence * 100)}% • 
+                          Reasoning: {classification.reasoning}
+                        </div>
+                      </div>
+                      <button
+                        onClick={() => onReclassify(item.entry, classification, `Accepted: ${classification.reasoning}`)}
+                        className="flex items-center gap-1 px-2 py-1 text-xs bg-white border border-gray-300 rounded hover:bg-gray-100"
+                      >
+                        <Check className="h-3 w-3" />
+                        Accept
+                      </button>
+                    </div>
+                  ))}
+                </div>
+                <ReclassifyForm entry={item.entry} nodes={nodes} onReclassify={onReclassify} />
+              </div>
+            </div>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
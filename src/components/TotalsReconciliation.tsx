@@ -0,0 +1,77 @@
+import { CheckCircle, XCircle } from 'lucide-react';
+import type { TotalComparison, TotalReconciliation } from '../lib/types';
+
+interface TotalsReconciliationProps {
+  reconciliations: TotalReconciliation[];
+}
+
+const SCOPE_LABELS: Record<TotalReconciliation['scope'], string> = {
+  grand: 'Grand total',
+  'trial-balance': 'Grand total against the trial balance',
+  category: 'Category total',
+  section: 'Section total'
+};
+
+function describeComparison(comparison: TotalComparison): string {
+  const side = comparison.side === 'net' ? '' : `${comparison.side} `;
+  return `Stated ${side}$${comparison.stated.toLocaleString()}, computed $${comparison.computed.toLocaleString()}`;
+}
+
+export function TotalsReconciliation({ reconciliations }: TotalsReconciliationProps) {
+  if (reconciliations.length === 0) return null;
+
+  const mismatches = reconciliations.filter(reconciliation => !reconciliation.matches).length;
+
+  return (
+    <div className="bg-white shadow rounded-lg p-6">
+      <h3 className="text-lg font-medium text-gray-900 mb-1">Total Reconciliation</h3>
+      <p className="text-sm text-gray-500 mb-4">
+        Total rows in the file checked against the entries they cover: their category, the rows since the previous
+        total, or their table. Grand totals are also checked against the whole trial balance.{' '}
+        {mismatches} of {reconciliations.length} do not match.
+      </p>
+      <div className="space-y-2">
+        {reconciliations.map(reconciliation => (
+          <div
+            key={`${reconciliation.sheetName}-${reconciliation.rowIndex}-${reconciliation.scope}`}
+            className="py-2 px-4 bg-gray-50 rounded text-sm"
+          >
+            <div className="flex items-start justify-between gap-4">
+              <div className="flex items-start gap-2">
+                {reconciliation.matches
+                  ? <CheckCircle className="h-4 w-4 text-green-500 mt-0.5" />
+                  : <XCircle className="h-4 w-4 text-red-500 mt-0.5" />}
+                <div>
+                  <p className="text-gray-900">{reconciliation.name}</p>
+                  <p className="text-xs text-gray-500">
+                    {SCOPE_LABELS[reconciliation.scope]} • {reconciliation.sheetName} row {reconciliation.rowIndex + 1} •{' '}
+                    {reconciliation.entryCount} entries
+                  </p>
+                </div>
+              </div>
+              <div className="text-right text-xs text-gray-600">
+                {reconciliation.comparisons.map(comparison => (
+                  <p key={comparison.side}>
+                    {describeComparison(comparison)}
+                    {!reconciliation.matches && comparison.difference !== 0 && (
+                      <span className="ml-1 font-medium text-red-600">
+                        ({comparison.difference > 0 ? '+' : ''}{comparison.difference.toLocaleString()})
+                      </span>
+                    )}
+                  </p>
+                ))}
+              </div>
+            </div>
+            {!reconciliation.matches && reconciliation.rows.length > 0 && (
+              <p className="text-xs text-gray-500 mt-1 ml-6">
+                Rows: {reconciliation.rows
+                  .map(row => `${row.rowIndex + 1} ${[row.accountCode, row.accountName].filter(Boolean).join(' ')}`)
+                  .join(' • ')}
+              </p>
+            )}
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
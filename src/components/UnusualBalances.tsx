@@ -0,0 +1,50 @@
+import type { BalanceWarning } from '../lib/types';
+
+interface UnusualBalancesProps {
+  warnings: BalanceWarning[];
+}
+
+const SEVERITY_STYLES: Record<BalanceWarning['severity'], string> = {
+  high: 'bg-red-100 text-red-800',
+  medium: 'bg-yellow-100 text-yellow-800',
+  low: 'bg-gray-100 text-gray-700'
+};
+
+export function UnusualBalances({ warnings }: UnusualBalancesProps) {
+  if (warnings.length === 0) return null;
+
+  return (
+    <div className="bg-white shadow rounded-lg p-6">
+      <h3 className="text-lg font-medium text-gray-900 mb-1">Unusual Balances</h3>
+      <p className="text-sm text-gray-500 mb-4">
+        Entries whose side does not match their classification, and contra accounts such as accumulated
+        depreciation, allowances, drawings or returns that may need their own category.
+      </p>
+      <div className="space-y-2">
+        {warnings.map((warning, index) => (
+          <div
+            key={`${warning.sheetName}-${warning.accountCode}-${warning.accountName}-${warning.type}-${index}`}
+            className="flex items-start justify-between gap-4 py-2 px-4 bg-gray-50 rounded text-sm"
+          >
+            <div className="flex items-start gap-3">
+              <span className={`inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium ${SEVERITY_STYLES[warning.severity]}`}>
+                {warning.severity}
+              </span>
+              <div>
+                <p className="text-gray-900">
+                  {warning.accountCode && <span className="text-gray-500 mr-1">{warning.accountCode}</span>}
+                  {warning.accountName}
+                </p>
+                <p className="text-xs text-gray-500">{warning.message}</p>
+              </div>
+            </div>
+            <span className="whitespace-nowrap text-gray-700">
+              ${warning.amount.toLocaleString()}
+              {warning.actualSide && <span className="text-xs ml-1 text-gray-500">({warning.actualSide})</span>}
+            </span>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,77 @@
+import { CheckCircle, Clock, Loader2, X, XCircle } from 'lucide-react';
+
+export interface QueueItem {
+  id: string;
+  file: File;
+  status: 'queued' | 'processing' | 'done' | 'failed';
+  error?: string;
+}
+
+interface UploadQueueProps {
+  items: QueueItem[];
+  onRemove: (id: string) => void;
+  onClearFinished: () => void;
+}
+
+const STATUS_LABELS: Record<QueueItem['status'], string> = {
+  queued: 'Queued',
+  processing: 'Processing',
+  done: 'Done',
+  failed: 'Failed'
+};
+
+function StatusIcon({ status }: { status: QueueItem['status'] }) {
+  switch (status) {
+    case 'queued':
+      return <Clock className="h-4 w-4 text-gray-400" />;
+    case 'processing':
+      return <Loader2 className="h-4 w-4 text-blue-500 animate-spin" />;
+    case 'done':
+      return <CheckCircle className="h-4 w-4 text-green-500" />;
+    case 'failed':
+      return <XCircle className="h-4 w-4 text-red-500" />;
+  }
+}
+
+export function UploadQueue({ items, onRemove, onClearFinished }: UploadQueueProps) {
+  const finished = items.filter(item => item.status === 'done' || item.status === 'failed').length;
+
+  return (
+    <div className="bg-white shadow rounded-lg p-4">
+      <div className="flex items-center justify-between mb-3">
+        <h3 className="text-sm font-medium text-gray-900">
+          Files ({finished} / {items.length} finished)
+        </h3>
+        {finished > 0 && (
+          <button
+            onClick={onClearFinished}
+            className="text-xs text-gray-500 hover:text-gray-700"
+          >
+            Clear finished
+          </button>
+        )}
+      </div>
+      <ul className="divide-y divide-gray-100">
+        {items.map(item => (
+          <li key={item.id} className="flex items-center gap-3 py-2 text-sm">
+            <StatusIcon status={item.status} />
+            <div className="flex-1 min-w-0">
+              <p className="truncate text-gray-900">{item.file.name}</p>
+              {item.error && <p className="text-xs text-red-600">{item.error}</p>}
+            </div>
+            <span className="text-xs text-gray-500">{STATUS_LABELS[item.status]}</span>
+            {item.status === 'queued' && (
+              <button
+                onClick={() => onRemove(item.id)}
+                className="text-gray-400 hover:text-red-600"
+                aria-label={`Remove ${item.file.name} from the queue`}
+              >
+                <X className="h-4 w-4" />
+              </button>
+            )}
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
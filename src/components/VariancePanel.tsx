@@ -0,0 +1,167 @@
+import { AlertTriangle } from 'lucide-react';
+import type { AccountVariance, PeriodComparison } from '../lib/periodComparison';
+import type { VarianceThresholds } from '../lib/types';
+
+interface VariancePanelProps {
+  /** Processed files that can serve as the prior period, excluding the current one */
+  files: { id: string; label: string }[];
+  priorFile: string | null;
+  comparison: PeriodComparison | null;
+  thresholds: VarianceThresholds;
+  onSelectPrior: (id: string | null) => void;
+  onChangeThresholds: (thresholds: VarianceThresholds) => void;
+}
+
+const STATUS_STYLES: Record<AccountVariance['status'], string> = {
+  matched: '',
+  new: 'bg-green-100 text-green-800',
+  dropped: 'bg-red-100 text-red-800',
+  reclassified: 'bg-yellow-100 text-yellow-800'
+};
+
+function formatAmount(amount: number): string {
+  const formatted = `$${Math.abs(amount).toLocaleString(undefined, { maximumFractionDigits: 2 })}`;
+  return amount < 0 ? `(${formatted})` : formatted;
+}
+
+function formatPercent(percent: number | null): string {
+  if (percent === null) return 'n/a';
+  return `${percent > 0 ? '+' : ''}${percent.toFixed(1)}%`;
+}
+
+export function VariancePanel({
+  files,
+  priorFile,
+  comparison,
+  thresholds,
+  onSelectPrior,
+  onChangeThresholds
+}: VariancePanelProps) {
+  if (files.length === 0) return null;
+
+  const updateThreshold = (key: keyof VarianceThresholds, value: string) => {
+    const parsed = Number(value);
+    if (Number.isFinite(parsed) && parsed >= 0) onChangeThresholds({ ...thresholds, [key]: parsed });
+  };
+
+  return (
+    <div className="bg-white shadow rounded-lg p-6">
+      <h3 className="text-lg font-medium text-gray-900 mb-1">Period Comparison</h3>
+      <p className="text-sm text-gray-500 mb-4">
+        Accounts are matched by code, then by name. Lines moving by at least both thresholds need an explanation;
+        lines without a prior balance are judged on the amount alone.
+      </p>
+      <div className="flex flex-wrap items-end gap-4 mb-4 text-sm">
+        <label className="flex flex-col gap-1">
+          <span className="text-gray-600">Prior period</span>
+          <select
+            value={priorFile ?? ''}
+            onChange={(e) => onSelectPrior(e.target.value || null)}
+            className="border border-gray-300 rounded px-2 py-1"
+          >
+            <option value="">None</option>
+            {files.map(file => (
+              <option key={file.id} value={file.id}>{file.label}</option>
+            ))}
+          </select>
+        </label>
+        <label className="flex flex-col gap-1">
+          <span className="text-gray-600">Amount threshold</span>
+          <input
+            type="number"
+            min={0}
+            value={thresholds.amount}
+            onChange={(e) => updateThreshold('amount', e.target.value)}
+            className="border border-gray-300 rounded px-2 py-1 w-32"
+          />
+        </label>
+        <label className="flex flex-col gap-1">
+          <span className="text-gray-600">Percent threshold</span>
+          <input
+            type="number"
+            min={0}
+            value={thresholds.percent}
+            onChange={(e) => updateThreshold('percent', e.target.value)}
+            className="border border-gray-300 rounded px-2 py-1 w-24"
+          />
+        </label>
+      </div>
+
+      {comparison && (
+        <>
+          <p className="text-sm text-gray-600 mb-4">
+            {comparison.counts.matched + comparison.counts.reclassified} matched • {comparison.counts.new} new •{' '}
+            {comparison.counts.dropped} dropped • {comparison.counts.reclassified} reclassified •{' '}
+            <span className={comparison.counts.flagged > 0 ? 'text-yellow-700 font-medium' : ''}>
+              {comparison.counts.flagged} need explanation
+            </span>
+          </p>
+
+          <h4 className="font-medium text-gray-700 mb-2">By category</h4>
+          <div className="space-y-1 mb-6">
+            {comparison.categories.map(category => (
+              <div
+                key={category.category}
+                className={`grid grid-cols-5 gap-2 py-2 px-4 rounded text-sm ${category.flagged ? 'bg-yellow-50' : 'bg-gray-50'}`}
+              >
+                <span className="col-span-2 text-gray-600">{category.category}</span>
+                <span className="text-right">{formatAmount(category.current)}</span>
+                <span className="text-right text-gray-500">{formatAmount(category.prior)}</span>
+                <span className="text-right font-medium">
+                  {formatAmount(category.variance)} ({formatPercent(category.variancePercent)})
+                </span>
+              </div>
+            ))}
+          </div>
+
+          <h4 className="font-medium text-gray-700 mb-2">By account</h4>
+          <div className="overflow-x-auto">
+            <table className="min-w-full divide-y divide-gray-200 text-sm">
+              <thead className="bg-gray-50">
+                <tr>
+                  <th className="px-3 py-2 text-left font-medium text-gray-500">Account</th>
+                  <th className="px-3 py-2 text-right font-medium text-gray-500">Current</th>
+                  <th className="px-3 py-2 text-right font-medium text-gray-500">Prior</th>
+                  <th className="px-3 py-2 text-right font-medium text-gray-500">Variance</th>
+                  <th className="px-3 py-2 text-right font-medium text-gray-500">%</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-200">
+                {comparison.accounts.map(account => (
+                  <tr
+                    key={`${account.status}-${account.accountCode}-${account.accountName}`}
+                    className={account.flagged ? 'bg-yellow-50' : ''}
+                  >
+                    <td className="px-3 py-2">
+                      <div className="flex items-center gap-2">
+                        {account.flagged && <AlertTriangle className="h-4 w-4 text-yellow-600 shrink-0" />}
+                        <span className="text-gray-900">
+                          {account.accountCode && <span className="text-gray-500 mr-1">{account.accountCode}</span>}
+                          {account.accountName}
+                        </span>
+                        {account.status !== 'matched' && (
+                          <span className={`px-2 rounded-full text-xs ${STATUS_STYLES[account.status]}`}>
+                            {account.status}
+                          </span>
+                        )}
+                      </div>
+                      {account.status === 'reclassified' && (
+                        <p className="text-xs text-gray-500 mt-1">
+                          {account.priorClassification} → {account.classification}
+                        </p>
+                      )}
+                    </td>
+                    <td className="px-3 py-2 text-right">{formatAmount(account.current)}</td>
+                    <td className="px-3 py-2 text-right text-gray-500">{formatAmount(account.prior)}</td>
+                    <td className="px-3 py-2 text-right font-medium">{formatAmount(account.variance)}</td>
+                    <td className="px-3 py-2 text-right">{formatPercent(account.variancePercent)}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
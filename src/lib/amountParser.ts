@@ -0,0 +1,99 @@
+import { Decimal } from 'decimal.js';
+
+export type DecimalSeparator = '.' | ',';
+
+export interface ParsedAmount {
+  /** Signed amount; parentheses and leading or trailing minus signs make it negative */
+  value: Decimal;
+  /** Side given by a Dr/Cr marker in the cell, if any */
+  side: 'DEBIT' | 'CREDIT' | null;
+}
+
+const ZERO: ParsedAmount = { value: new Decimal(0), side: null };
+
+const SIDE_MARKER = /\s*\b(dr|db|cr)\b\.?\s*$/i;
+const LEADING_SIDE_MARKER = /^\s*(dr|db|cr)\b\.?\s*/i;
+const CURRENCY_SYMBOLS = /[$€£¥₹₩₽₱฿₫]/g;
+const CURRENCY_CODES = /^(?:[A-Z]{3}|Rp\.?|RM|R\$|S\$|A\$|C\$)\s*|\s*(?:[A-Z]{3}|Rp\.?|RM)$/;
+
+/**
+ * Works out which separator marks the decimals. When both appear the last one
+ * wins; a single separator followed by exactly three digits is ambiguous and
+ * falls back to the locale hint.
+ */
+function resolveDecimalSeparator(digits: string, hint: DecimalSeparator): DecimalSeparator | null {
+  const lastDot = digits.lastIndexOf('.');
+  const lastComma = digits.lastIndexOf(',');
+  if (lastDot >= 0 && lastComma >= 0) return lastDot > lastComma ? '.' : ',';
+
+  const separator = lastDot >= 0 ? '.' : lastComma >= 0 ? ',' : null;
+  if (!separator) return null;
+
+  const occurrences = digits.split(separator).length - 1;
+  if (occurrences > 1) return separator === '.' ? ',' : '.';
+
+  const decimals = digits.length - digits.lastIndexOf(separator) - 1;
+  if (decimals !== 3) return separator;
+  return hint;
+}
+
+/**
+ * Parses a cell value into a signed amount. Handles parentheses negatives,
+ * currency symbols and codes, thousands separators, locale decimal commas and
+ * Dr/Cr markers. Returns null when the value is not an amount.
+ */
+export function parseAmount(value: unknown, decimalHint: DecimalSeparator = '.'): ParsedAmount | null {
+  if (value === undefined || value === null) return ZERO;
+  if (typeof value === 'number') {
+    return Number.isFinite(value) ? { value: new Decimal(value), side: null } : null;
+  }
+  if (typeof value !== 'string') return null;
+
+  let text = value.replace(/[\u00a0\u202f]/g, ' ').trim();
+  if (text === '' || text === '-' || text === '–') return ZERO;
+
+  let side: ParsedAmount['side'] = null;
+  const marker = text.match(SIDE_MARKER) ?? text.match(LEADING_SIDE_MARKER);
+  if (marker) {
+    side = marker[1].toLowerCase() === 'cr' ? 'CREDIT' : 'DEBIT';
+    text = text.replace(marker[0], '').trim();
+  }
+
+  let negative = false;
+  if (/^\(.*\)$/.test(text)) {
+    negative = true;
+    text = text.slice(1, -1).trim();
+  }
+
+  text = text.replace(CURRENCY_SYMBOLS, '').replace(CURRENCY_CODES, '').trim();
+
+  if (/^[-−]/.test(text)) {
+    negative = !negative;
+    text = text.slice(1).trim();
+  } else if (/[-−]$/.test(text)) {
+    negative = !negative;
+    text = text.slice(0, -1).trim();
+  } else if (text.startsWith('+')) {
+    text = text.slice(1).trim();
+  }
+
+  // Parentheses may also follow a currency symbol, e.g. "$(500)"
+  text = text.replace(CURRENCY_SYMBOLS, '').replace(/^\((.*)\)$/, (_, inner: string) => {
+    negative = !negative;
+    return inner;
+  }).trim();
+
+  const digits = text.replace(/[\s']/g, '');
+  if (!/^\d[\d.,]*$/.test(digits) && !/^[.,]\d+$/.test(digits)) return null;
+
+  const decimalSeparator = resolveDecimalSeparator(digits, decimalHint);
+  const thousandsSeparator = decimalSeparator === ',' ? '.' : ',';
+  const normalized = digits
+    .split(thousandsSeparator).join('')
+    .replace(decimalSeparator ?? '.', '.');
+
+  if (!/^\d*\.?\d+$/.test(normalized) && !/^\d+\.?$/.test(normalized)) return null;
+
+  const amount = new Decimal(normalized);
+  return { value: negative ? amount.negated() : amount, side };
+}
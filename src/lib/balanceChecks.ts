@@ -0,0 +1,106 @@
+import { Decimal } from 'decimal.js';
+import { CONTRA_ACCOUNTS, NORMAL_BALANCES } from './constants';
+import { tokenizeAccountName } from './nameSimilarity';
+import type { AccountClassification, BalanceWarning, FinancialEntry, NormalBalance } from './types';
+
+type ContraAccount = typeof CONTRA_ACCOUNTS[number];
+
+// Share of the trial balance total above which a wrong-side balance is material
+const HIGH_SEVERITY_SHARE = 0.01;
+const MEDIUM_SEVERITY_SHARE = 0.001;
+
+const SEVERITY_ORDER: Record<BalanceWarning['severity'], number> = { high: 0, medium: 1, low: 2 };
+
+function categoryKey(primary: string): string {
+  return primary.toLowerCase().replace(/_/g, ' ').trim();
+}
+
+function opposite(side: NormalBalance): NormalBalance {
+  return side === 'DEBIT' ? 'CREDIT' : 'DEBIT';
+}
+
+/**
+ * Side the classification node usually carries: its own normal balance when
+ * the chart or rule set gives one, otherwise that of its primary category.
+ */
+export function normalBalanceFor(classification: AccountClassification): NormalBalance | null {
+  return classification.normalBalance ?? NORMAL_BALANCES[categoryKey(classification.primary)] ?? null;
+}
+
+const CONTRA_PATTERNS = CONTRA_ACCOUNTS.map(contra => ({
+  contra,
+  patterns: contra.patterns.map(pattern => tokenizeAccountName(pattern))
+}));
+
+/** A contra account whose pattern tokens all appear among the account name's tokens */
+export function findContraAccount(accountName: string): ContraAccount | null {
+  const tokens = new Set(tokenizeAccountName(accountName));
+  const match = CONTRA_PATTERNS.find(({ patterns }) => patterns.some(pattern => pattern.every(token => tokens.has(token))));
+  return match?.contra ?? null;
+}
+
+function capitalize(text: string): string {
+  return text.charAt(0).toUpperCase() + text.slice(1);
+}
+
+/**
+ * Compares each entry's balance side with its classification and flags
+ * contra accounts that are misclassified or presented as plain accounts.
+ * Severity of a wrong-side balance depends on its share of the total.
+ */
+export function checkBalances(entries: FinancialEntry[]): BalanceWarning[] {
+  const total = entries.reduce(
+    (sum, entry) => ({ debit: sum.debit.plus(entry.debit), credit: sum.credit.plus(entry.credit) }),
+    { debit: new Decimal(0), credit: new Decimal(0) }
+  );
+  const scale = Decimal.max(total.debit, total.credit);
+  const warnings: BalanceWarning[] = [];
+
+  entries.forEach(entry => {
+    const nodeSide = normalBalanceFor(entry.classification);
+    if (!nodeSide) return;
+
+    const net = new Decimal(entry.debit).minus(entry.credit);
+    const actualSide: NormalBalance | null = net.isZero() ? null : net.isPositive() ? 'DEBIT' : 'CREDIT';
+    const amount = net.abs().toNumber();
+    const base = { accountCode: entry.accountCode, accountName: entry.accountName, sheetName: entry.sheetName, actualSide, amount };
+    const category = categoryKey(entry.classification.primary);
+
+    let expectedSide = nodeSide;
+    const contra = findContraAccount(entry.accountName);
+    if (contra && contra.primary !== category) {
+      warnings.push({
+        ...base,
+        type: 'contra-classification',
+        severity: 'medium',
+        expectedSide: opposite(NORMAL_BALANCES[contra.primary]),
+        message: `Looks like ${contra.label.toLowerCase()}, a contra account to ${capitalize(contra.primary)}, but is classified as ${entry.classification.primary}`
+      });
+      return;
+    }
+    if (contra && nodeSide === NORMAL_BALANCES[category]) {
+      // The node is a plain account of the category, so the contra sits on the other side
+      expectedSide = opposite(nodeSide);
+      warnings.push({
+        ...base,
+        type: 'contra-account',
+        severity: 'low',
+        expectedSide,
+        message: `${contra.label} is a contra account but is classified as plain ${entry.classification.tertiary}; it reduces ${entry.classification.primary}`
+      });
+    }
+
+    if (!actualSide || actualSide === expectedSide) return;
+
+    const share = scale.isZero() ? 0 : net.abs().dividedBy(scale).toNumber();
+    warnings.push({
+      ...base,
+      type: 'unexpected-side',
+      severity: share >= HIGH_SEVERITY_SHARE ? 'high' : share >= MEDIUM_SEVERITY_SHARE ? 'medium' : 'low',
+      expectedSide,
+      message: `${entry.classification.primary} account has a ${actualSide.toLowerCase()} balance; ${contra ? contra.label.toLowerCase() : entry.classification.tertiary} normally carries a ${expectedSide.toLowerCase()} balance`
+    });
+  });
+
+  return warnings.sort((a, b) => SEVERITY_ORDER[a.severity] - SEVERITY_ORDER[b.severity] || b.amount - a.amount);
+}
@@ -0,0 +1,193 @@
+import { Decimal } from 'decimal.js';
+import type { BalanceHypothesis, FinancialEntry } from './types';
+
+type Side = 'debit' | 'credit';
+
+// Long lists of suspects stop being useful; the strongest ones come first anyway
+const MAX_SUSPECT_ROWS = 20;
+
+// Differences under one currency unit are too small to be a misposted amount
+const ROUNDING_LIMIT = 1;
+
+// How many rows above a suspected subtotal are searched for the run it sums
+const SUBTOTAL_LOOKBACK = 50;
+
+function toRow(entry: FinancialEntry): BalanceHypothesis['rows'][number] {
+  return {
+    sheetName: entry.sheetName,
+    accountCode: entry.accountCode,
+    accountName: entry.accountName,
+    rowIndex: entry.rowIndex,
+    debit: entry.debit,
+    credit: entry.credit
+  };
+}
+
+function hypothesis(
+  type: BalanceHypothesis['type'],
+  score: number,
+  message: string,
+  entries: FinancialEntry[] = []
+): BalanceHypothesis {
+  return { type, score, message, rows: entries.slice(0, MAX_SUSPECT_ROWS).map(toRow) };
+}
+
+function formatAmount(amount: Decimal): string {
+  return `$${amount.toNumber().toLocaleString()}`;
+}
+
+function amountOn(entry: FinancialEntry, side: Side): Decimal {
+  return new Decimal(side === 'debit' ? entry.debit : entry.credit);
+}
+
+/** Digits beyond cents are what floating-point arithmetic in the source leaves behind */
+function hasSubCentDigits(amount: number): boolean {
+  return !new Decimal(amount).times(100).isInteger();
+}
+
+/**
+ * Swapping two adjacent digits changes an amount by a multiple of nine, so a
+ * difference divisible by nine points at the amounts where one such swap
+ * accounts for the whole difference.
+ */
+function transpositionSuspects(entries: FinancialEntry[], difference: Decimal): FinancialEntry[] {
+  return entries.filter(entry => [entry.debit, entry.credit].some(amount => {
+    if (amount === 0 || hasSubCentDigits(amount)) return false;
+    const digits = new Decimal(amount).times(100).toFixed(0).split('');
+    return digits.slice(0, -1).some((digit, index) => {
+      if (digit === digits[index + 1]) return false;
+      const swapped = [...digits];
+      [swapped[index], swapped[index + 1]] = [swapped[index + 1], swapped[index]];
+      return new Decimal(swapped.join('')).minus(digits.join('')).abs().dividedBy(100).equals(difference);
+    });
+  }));
+}
+
+/** Rows whose amount equals the sum of the rows directly above them on the same side of the same table */
+function subtotalSuspects(entries: FinancialEntry[], side: Side, difference: Decimal): FinancialEntry[] {
+  const byTable = new Map<string, FinancialEntry[]>();
+  entries.forEach(entry => {
+    const key = `${entry.sheetName}|${entry.sourceTable}`;
+    const rows = byTable.get(key) ?? [];
+    rows.push(entry);
+    byTable.set(key, rows);
+  });
+
+  const suspects: FinancialEntry[] = [];
+  byTable.forEach(rows => {
+    rows.sort((a, b) => a.rowIndex - b.rowIndex);
+    rows.forEach((entry, index) => {
+      const amount = amountOn(entry, side);
+      if (!amount.equals(difference)) return;
+      let sum = new Decimal(0);
+      for (let previous = index - 1; previous >= Math.max(0, index - SUBTOTAL_LOOKBACK); previous--) {
+        const above = amountOn(rows[previous], side);
+        if (above.isZero()) break;
+        sum = sum.plus(above);
+        if (sum.equals(amount) && index - previous >= 2) {
+          suspects.push(entry);
+          return;
+        }
+        if (sum.greaterThan(amount)) break;
+      }
+    });
+  });
+  return suspects;
+}
+
+function duplicateGroups(entries: FinancialEntry[]): FinancialEntry[][] {
+  const groups = new Map<string, FinancialEntry[]>();
+  entries.forEach(entry => {
+    const key = [entry.sheetName, entry.accountCode, entry.accountName.toLowerCase(), entry.debit, entry.credit].join('|');
+    const group = groups.get(key) ?? [];
+    group.push(entry);
+    groups.set(key, group);
+  });
+  return Array.from(groups.values()).filter(group => group.length > 1);
+}
+
+/**
+ * Looks for the usual causes of a trial balance that does not balance and
+ * returns them most likely first: rounding, transposed digits, an amount on
+ * the wrong side (half the difference), an amount without its other side
+ * (the whole difference), duplicated rows, a subtotal read as an account and
+ * rows with both a debit and a credit. `entries` should be the rows as read,
+ * before aggregation, so duplicates and two-sided rows are still visible.
+ */
+export function diagnoseImbalance(entries: FinancialEntry[], totalDebits: number, totalCredits: number): BalanceHypothesis[] {
+  const signedDifference = new Decimal(totalDebits).minus(totalCredits);
+  if (signedDifference.isZero()) return [];
+
+  const difference = signedDifference.abs();
+  const heavySide: Side = signedDifference.isPositive() ? 'debit' : 'credit';
+  const lightSide: Side = heavySide === 'debit' ? 'credit' : 'debit';
+  const hypotheses: BalanceHypothesis[] = [];
+
+  if (difference.lessThan(ROUNDING_LIMIT)) {
+    const unrounded = entries.filter(entry => hasSubCentDigits(entry.debit) || hasSubCentDigits(entry.credit));
+    hypotheses.push(unrounded.length > 0
+      ? hypothesis('rounding', 0.95, `${unrounded.length === 1 ? 'An amount carries' : `${unrounded.length} amounts carry`} fractions of a cent that add up to the ${formatAmount(difference)} difference`, unrounded)
+      : hypothesis('rounding', 0.5, `The ${formatAmount(difference)} difference is small enough to be rounding in the source figures`));
+  }
+
+  if (difference.times(100).isInteger() && difference.times(100).modulo(9).isZero()) {
+    const suspects = transpositionSuspects(entries, difference);
+    hypotheses.push(suspects.length > 0
+      ? hypothesis('transposition', 0.75, `Swapping two adjacent digits in ${suspects.length === 1 ? 'this amount' : 'one of these amounts'} would explain the ${formatAmount(difference)} difference, which is divisible by 9`, suspects)
+      : hypothesis('transposition', 0.3, `The ${formatAmount(difference)} difference is divisible by 9, which is typical of transposed digits`));
+  }
+
+  const half = difference.dividedBy(2);
+  const wrongSide = entries.filter(entry => amountOn(entry, heavySide).equals(half));
+  if (wrongSide.length > 0) {
+    hypotheses.push(hypothesis(
+      'wrong-side',
+      0.85,
+      `${wrongSide.length === 1 ? 'This amount' : 'One of these amounts'} is half the difference and may be posted as a ${heavySide} instead of a ${lightSide}`,
+      wrongSide
+    ));
+  }
+
+  const subtotals = subtotalSuspects(entries, heavySide, difference);
+  if (subtotals.length > 0) {
+    hypotheses.push(hypothesis(
+      'total-row',
+      0.9,
+      `${subtotals.length === 1 ? 'This row equals' : 'These rows equal'} the difference and the sum of the ${heavySide}s above, so a subtotal may have been counted as an account`,
+      subtotals
+    ));
+  }
+
+  const singleAmounts = entries.filter(entry =>
+    !subtotals.includes(entry) && [entry.debit, entry.credit].some(amount => difference.equals(amount))
+  );
+  if (singleAmounts.length > 0) {
+    hypotheses.push(hypothesis(
+      'single-amount',
+      0.6,
+      `${singleAmounts.length === 1 ? 'This amount equals' : 'These amounts equal'} the difference; a posting may be missing its other side or be recorded twice`,
+      singleAmounts
+    ));
+  }
+
+  const duplicates = duplicateGroups(entries);
+  if (duplicates.length > 0) {
+    // A copy on the heavy side that accounts for the whole difference is far more telling than any repeated row
+    const explaining = duplicates.filter(group =>
+      amountOn(group[0], heavySide).times(group.length - 1).equals(difference)
+    );
+    hypotheses.push(explaining.length > 0
+      ? hypothesis('duplicate', 0.8, `Repeated ${heavySide} rows whose extra copies equal the difference`, explaining.flat())
+      : hypothesis('duplicate', 0.25, `${duplicates.length === 1 ? 'A row appears' : `${duplicates.length} rows appear`} more than once with the same account and amounts`, duplicates.flat()));
+  }
+
+  const twoSided = entries.filter(entry => entry.debit > 0 && entry.credit > 0);
+  if (twoSided.length > 0) {
+    const explaining = twoSided.filter(entry => difference.equals(entry.debit) || difference.equals(entry.credit));
+    hypotheses.push(explaining.length > 0
+      ? hypothesis('both-sides', 0.7, `${explaining.length === 1 ? 'This row has' : 'These rows have'} both a debit and a credit, one of which equals the difference`, explaining)
+      : hypothesis('both-sides', 0.4, `${twoSided.length === 1 ? 'A row has' : `${twoSided.length} rows have`} both a debit and a credit filled in`, twoSided));
+  }
+
+  return hypotheses.sort((a, b) => b.score - a.score);
+}
@@ -0,0 +1,332 @@
+import { z } from 'zod';
+import { FinancialProcessor } from './financialProcessor';
+import type { ProcessingOptions } from './financialProcessor';
+import { KEYWORD_LOCALES } from './keywordPacks';
+import { REPORTING_FRAMEWORKS } from './taxonomy';
+import type { AccountClassification, FinancialEntry } from './types';
+
+export const BENCHMARK_LEVELS = ['primary', 'secondary', 'tertiary'] as const;
+export type BenchmarkLevel = typeof BENCHMARK_LEVELS[number];
+
+export const LabelledAccountSchema = z.object({
+  accountCode: z.string().optional(),
+  accountName: z.string().optional(),
+  primary: z.string(),
+  secondary: z.string(),
+  tertiary: z.string()
+}).refine(account => account.accountCode || account.accountName, 'Each account needs an accountCode or accountName');
+
+/** Expected classifications of one workbook, stored next to it as "<name>.labels.json" */
+export const BenchmarkLabelsSchema = z.object({
+  options: z.object({
+    keywordLocale: z.enum([...KEYWORD_LOCALES, 'auto']).optional(),
+    reportingFramework: z.enum(REPORTING_FRAMEWORKS).optional()
+  }).optional(),
+  accounts: z.array(LabelledAccountSchema).min(1)
+});
+
+const LevelCorrectnessSchema = z.object({
+  primary: z.boolean(),
+  secondary: z.boolean(),
+  tertiary: z.boolean()
+});
+
+export const BenchmarkBaselineSchema = z.object({
+  createdAt: z.string(),
+  accuracy: z.object({ primary: z.number(), secondary: z.number(), tertiary: z.number() }),
+  /** Outcome per account keyed by accountResultKey */
+  results: z.record(z.object({ predicted: z.string(), correct: LevelCorrectnessSchema }))
+});
+
+export type LabelledAccount = z.infer<typeof LabelledAccountSchema>;
+export type BenchmarkLabels = z.infer<typeof BenchmarkLabelsSchema>;
+export type BenchmarkBaseline = z.infer<typeof BenchmarkBaselineSchema>;
+
+export interface BenchmarkCase {
+  name: string;
+  file: File;
+  labels: BenchmarkLabels;
+}
+
+export interface AccountResult {
+  caseName: string;
+  account: LabelledAccount;
+  expected: string;
+  /** Null when the processor produced no entry for the account */
+  predicted: AccountClassification | null;
+  correct: Record<BenchmarkLevel, boolean>;
+}
+
+export interface CalibrationBin {
+  from: number;
+  to: number;
+  count: number;
+  meanConfidence: number;
+  accuracy: number;
+}
+
+export interface BenchmarkReport {
+  cases: { name: string; accounts: number; missing: number; error?: string }[];
+  results: AccountResult[];
+  accuracy: Record<BenchmarkLevel, number>;
+  /** Counts of predicted primary categories per expected primary category */
+  confusion: Record<string, Record<string, number>>;
+  calibration: {
+    bins: CalibrationBin[];
+    /** Count-weighted gap between confidence and tertiary accuracy */
+    expectedCalibrationError: number;
+    brierScore: number;
+  };
+}
+
+export interface BaselineComparison {
+  accuracyChange: Record<BenchmarkLevel, number>;
+  /** Accounts classified correctly in the baseline but not now, per level */
+  regressions: { key: string; level: BenchmarkLevel; before: string; after: string }[];
+  improvements: { key: string; level: BenchmarkLevel; before: string; after: string }[];
+  /** Accounts in the baseline that are no longer in the corpus */
+  removed: string[];
+}
+
+export const MISSING_PREDICTION = '(missing)';
+const CALIBRATION_BINS = 10;
+
+function normalizeLabel(value: string): string {
+  return value.trim().toLowerCase();
+}
+
+function formatClassification(node: Pick<AccountClassification, 'primary' | 'secondary' | 'tertiary'>): string {
+  return `${node.primary} > ${node.secondary} > ${node.tertiary}`;
+}
+
+export function accountResultKey(caseName: string, account: LabelledAccount): string {
+  return `${caseName}::${account.accountCode?.trim() || normalizeLabel(account.accountName ?? '')}`;
+}
+
+function findEntry(entries: FinancialEntry[], account: LabelledAccount): FinancialEntry | undefined {
+  const code = account.accountCode?.trim();
+  if (code) {
+    const byCode = entries.find(entry => entry.accountCode.trim() === code);
+    if (byCode) return byCode;
+  }
+  const name = account.accountName && normalizeLabel(account.accountName);
+  return name ? entries.find(entry => normalizeLabel(entry.accountName) === name) : undefined;
+}
+
+function scoreAccount(caseName: string, account: LabelledAccount, entry: FinancialEntry | undefined): AccountResult {
+  const predicted = entry?.classification ?? null;
+  // A level only counts as correct when every level above it is correct too
+  const matches = (level: BenchmarkLevel) =>
+    Boolean(predicted && normalizeLabel(predicted[level]) === normalizeLabel(account[level]));
+  const primary = matches('primary');
+  const secondary = primary && matches('secondary');
+  const tertiary = secondary && matches('tertiary');
+  return {
+    caseName,
+    account,
+    expected: formatClassification(account),
+    predicted,
+    correct: { primary, secondary, tertiary }
+  };
+}
+
+function calibrate(results: AccountResult[]): BenchmarkReport['calibration'] {
+  const scored = results.flatMap(({ predicted, correct }) =>
+    predicted ? [{ confidence: predicted.confidence, correct: correct.tertiary }] : []
+  );
+  const bins: CalibrationBin[] = Array.from({ length: CALIBRATION_BINS }, (_, index) => {
+    const from = index / CALIBRATION_BINS;
+    const to = (index + 1) / CALIBRATION_BINS;
+    // The last bin includes a confidence of exactly 1
+    const inBin = scored.filter(({ confidence }) =>
+      confidence >= from && (confidence < to || (index === CALIBRATION_BINS - 1 && confidence <= to))
+    );
+    const count = inBin.length;
+    return {
+      from,
+      to,
+      count,
+      meanConfidence: count ? inBin.reduce((sum, result) => sum + result.confidence, 0) / count : 0,
+      accuracy: count ? inBin.filter(result => result.correct).length / count : 0
+    };
+  });
+
+  const total = scored.length;
+  return {
+    bins,
+    expectedCalibrationError: total
+      ? bins.reduce((sum, bin) => sum + (bin.count / total) * Math.abs(bin.accuracy - bin.meanConfidence), 0)
+      : 0,
+    brierScore: total
+      ? scored.reduce((sum, result) => sum + (result.confidence - (result.correct ? 1 : 0)) ** 2, 0) / total
+      : 0
+  };
+}
+
+/**
+ * Processes every labelled workbook and scores the classifications against
+ * the labels. Workbooks that fail to process count all their accounts as
+ * missing rather than stopping the run.
+ */
+export async function runBenchmark(
+  cases: BenchmarkCase[],
+  options: Omit<ProcessingOptions, 'keywordLocale' | 'reportingFramework'> = {}
+): Promise<BenchmarkReport> {
+  const report: BenchmarkReport = {
+    cases: [],
+    results: [],
+    accuracy: { primary: 0, secondary: 0, tertiary: 0 },
+    confusion: {},
+    calibration: { bins: [], expectedCalibrationError: 0, brierScore: 0 }
+  };
+
+  for (const benchmarkCase of cases) {
+    let entries: FinancialEntry[] = [];
+    let error: string | undefined;
+    try {
+      const trialBalance = await FinancialProcessor.processFile(benchmarkCase.file, {
+        ...options,
+        ...benchmarkCase.labels.options
+      });
+      entries = trialBalance.entries;
+    } catch (caught) {
+      error = caught instanceof Error ? caught.message : String(caught);
+    }
+
+    const results = benchmarkCase.labels.accounts.map(account =>
+      scoreAccount(benchmarkCase.name, account, findEntry(entries, account))
+    );
+    report.results.push(...results);
+    report.cases.push({
+      name: benchmarkCase.name,
+      accounts: results.length,
+      missing: results.filter(result => !result.predicted).length,
+      error
+    });
+  }
+
+  const total = report.results.length;
+  BENCHMARK_LEVELS.forEach(level => {
+    report.accuracy[level] = total ? report.results.filter(result => result.correct[level]).length / total : 0;
+  });
+
+  report.results.forEach(({ account, predicted }) => {
+    const row = (report.confusion[account.primary] ??= {});
+    const column = predicted?.primary ?? MISSING_PREDICTION;
+    row[column] = (row[column] ?? 0) + 1;
+  });
+
+  report.calibration = calibrate(report.results);
+  return report;
+}
+
+export function toBaseline(report: BenchmarkReport): BenchmarkBaseline {
+  return {
+    createdAt: new Date().toISOString(),
+    accuracy: report.accuracy,
+    results: Object.fromEntries(report.results.map(result => [
+      accountResultKey(result.caseName, result.account),
+      {
+        predicted: result.predicted ? formatClassification(result.predicted) : MISSING_PREDICTION,
+        correct: result.correct
+      }
+    ]))
+  };
+}
+
+export function compareWithBaseline(report: BenchmarkReport, baseline: BenchmarkBaseline): BaselineComparison {
+  const comparison: BaselineComparison = {
+    accuracyChange: {
+      primary: report.accuracy.primary - baseline.accuracy.primary,
+      secondary: report.accuracy.secondary - baseline.accuracy.secondary,
+      tertiary: report.accuracy.tertiary - baseline.accuracy.tertiary
+    },
+    regressions: [],
+    improvements: [],
+    removed: []
+  };
+
+  const current = toBaseline(report).results;
+  Object.entries(current).forEach(([key, now]) => {
+    const before = baseline.results[key];
+    if (!before) return;
+    // Report each account once, at the highest level whose outcome changed
+    const level = BENCHMARK_LEVELS.find(candidate => before.correct[candidate] !== now.correct[candidate]);
+    if (!level) return;
+    const change = { key, level, before: before.predicted, after: now.predicted };
+    if (before.correct[level]) comparison.regressions.push(change);
+    else comparison.improvements.push(change);
+  });
+  comparison.removed = Object.keys(baseline.results).filter(key => !current[key]);
+
+  return comparison;
+}
+
+function percent(value: number): string {
+  return `${(value * 100).toFixed(1)}%`;
+}
+
+function signedPercent(value: number): string {
+  return `${value >= 0 ? '+' : ''}${(value * 100).toFixed(1)} pts`;
+}
+
+/** Plain-text report for the terminal */
+export function formatBenchmarkReport(report: BenchmarkReport, comparison?: BaselineComparison): string {
+  const lines: string[] = [];
+  const total = report.results.length;
+
+  lines.push(`Benchmark: ${report.cases.length} workbooks, ${total} labelled accounts`);
+  report.cases.forEach(({ name, accounts, missing, error }) => {
+    lines.push(`  ${name}: ${accounts} accounts${missing ? `, ${missing} missing` : ''}${error ? ` (error: ${error})` : ''}`);
+  });
+
+  lines.push('', 'Accuracy');
+  BENCHMARK_LEVELS.forEach(level => {
+    const change = comparison ? `  (${signedPercent(comparison.accuracyChange[level])})` : '';
+    lines.push(`  ${level.padEnd(10)} ${percent(report.accuracy[level]).padStart(6)}${change}`);
+  });
+
+  const expected = Object.keys(report.confusion).sort();
+  const predicted = [...new Set(Object.values(report.confusion).flatMap(row => Object.keys(row)))].sort();
+  const width = Math.max(8, ...expected.map(label => label.length), ...predicted.map(label => label.length)) + 2;
+  lines.push('', 'Confusion matrix (primary; rows expected, columns predicted)');
+  lines.push(`  ${''.padEnd(width)}${predicted.map(label => label.padStart(width)).join('')}`);
+  expected.forEach(label => {
+    const row = report.confusion[label];
+    lines.push(`  ${label.padEnd(width)}${predicted.map(column => String(row[column] ?? 0).padStart(width)).join('')}`);
+  });
+
+  lines.push('', 'Calibration (confidence against tertiary correctness)');
+  report.calibration.bins.filter(bin => bin.count > 0).forEach(bin => {
+    lines.push(
+      `  ${bin.from.toFixed(1)}–${bin.to.toFixed(1)}  n=${String(bin.count).padEnd(5)} ` +
+      `confidence ${percent(bin.meanConfidence).padStart(6)}  accuracy ${percent(bin.accuracy).padStart(6)}`
+    );
+  });
+  lines.push(`  Expected calibration error ${report.calibration.expectedCalibrationError.toFixed(3)}`);
+  lines.push(`  Brier score ${report.calibration.brierScore.toFixed(3)}`);
+
+  const wrong = report.results.filter(result => !result.correct.tertiary);
+  if (wrong.length > 0) {
+    lines.push('', `Misclassified (${wrong.length})`);
+    wrong.forEach(result => {
+      const predictedLabel = result.predicted ? formatClassification(result.predicted) : MISSING_PREDICTION;
+      lines.push(`  ${accountResultKey(result.caseName, result.account)}: expected ${result.expected}, got ${predictedLabel}`);
+    });
+  }
+
+  if (comparison) {
+    lines.push('', `Against baseline: ${comparison.regressions.length} regressions, ${comparison.improvements.length} improvements`);
+    comparison.regressions.forEach(({ key, level, before, after }) => {
+      lines.push(`  REGRESSION ${key} (${level}): ${before} -> ${after}`);
+    });
+    comparison.improvements.forEach(({ key, level, before, after }) => {
+      lines.push(`  improved   ${key} (${level}): ${before} -> ${after}`);
+    });
+    if (comparison.removed.length > 0) {
+      lines.push(`  ${comparison.removed.length} baseline accounts are no longer in the corpus`);
+    }
+  }
+
+  return lines.join('\n');
+}
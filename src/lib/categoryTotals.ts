@@ -0,0 +1,29 @@
+import { Decimal } from 'decimal.js';
+import type { CategoryTotal, FinancialEntry } from './types';
+
+/**
+ * Sums debits and credits per primary classification. Net is debit minus
+ * credit, so credit-natured categories come out negative.
+ */
+export function calculateCategoryTotals(entries: FinancialEntry[]): CategoryTotal[] {
+  const totals = new Map<string, { debit: Decimal; credit: Decimal; entryCount: number }>();
+
+  entries.forEach(entry => {
+    const category = entry.classification.primary;
+    const total = totals.get(category) ?? { debit: new Decimal(0), credit: new Decimal(0), entryCount: 0 };
+    total.debit = total.debit.plus(entry.debit);
+    total.credit = total.credit.plus(entry.credit);
+    total.entryCount++;
+    totals.set(category, total);
+  });
+
+  return Array.from(totals.entries())
+    .map(([category, { debit, credit, entryCount }]) => ({
+      category,
+      debit: debit.toNumber(),
+      credit: credit.toNumber(),
+      net: debit.minus(credit).toNumber(),
+      entryCount
+    }))
+    .sort((a, b) => a.category.localeCompare(b.category));
+}
@@ -0,0 +1,187 @@
+import { z } from 'zod';
+import { utils } from 'xlsx';
+import { ChartAccountSchema, ChartOfAccountsSchema } from './types';
+import type { AccountClassification, ChartAccount, ChartOfAccounts, NormalBalance } from './types';
+import { CHART_COLUMN_SYNONYMS } from './constants';
+import { normalizeHeader } from './columnResolver';
+import { detectInputFormat, readInputWorkbook } from './fileFormats';
+
+const STORAGE_KEY = 'financial-processor:charts-of-accounts';
+const SELECTED_KEY = 'financial-processor:selected-chart';
+
+type ChartColumn = keyof typeof CHART_COLUMN_SYNONYMS;
+
+/** Built-in chart used when no imported chart is selected */
+export const STANDARD_CHART: ChartOfAccounts = {
+  name: 'Standard',
+  createdAt: '1970-01-01T00:00:00.000Z',
+  accounts: [
+    { code: '1000', name: 'Cash', primary: 'Assets', secondary: 'Current Assets', tertiary: 'Cash and Cash Equivalents', normalBalance: 'DEBIT' },
+    { code: '1100', name: 'Accounts Receivable', primary: 'Assets', secondary: 'Current Assets', tertiary: 'Accounts Receivable', normalBalance: 'DEBIT' },
+    { code: '1200', name: 'Inventory', primary: 'Assets', secondary: 'Current Assets', tertiary: 'Inventory', normalBalance: 'DEBIT' },
+    { code: '1500', name: 'Property, Plant and Equipment', primary: 'Assets', secondary: 'Non-Current Assets', tertiary: 'Property, Plant and Equipment', normalBalance: 'DEBIT' },
+    { code: '2000', name: 'Accounts Payable', primary: 'Liabilities', secondary: 'Current Liabilities', tertiary: 'Accounts Payable', normalBalance: 'CREDIT' },
+    { code: '2100', name: 'Short-term Loans', primary: 'Liabilities', secondary: 'Current Liabilities', tertiary: 'Short-term Loans', normalBalance: 'CREDIT' },
+    { code: '2500', name: 'Long-term Loans', primary: 'Liabilities', secondary: 'Non-Current Liabilities', tertiary: 'Long-term Loans', normalBalance: 'CREDIT' },
+    { code: '3000', name: 'Share Capital', primary: 'Equity', secondary: 'Capital', tertiary: 'Share Capital', normalBalance: 'CREDIT' },
+    { code: '3100', name: 'Retained Earnings', primary: 'Equity', secondary: 'Retained Earnings', tertiary: 'Accumulated Profits', normalBalance: 'CREDIT' },
+    { code: '4000', name: 'Sales Revenue', primary: 'Revenue', secondary: 'Operating Revenue', tertiary: 'Sales Revenue', normalBalance: 'CREDIT' },
+    { code: '4100', name: 'Interest Income', primary: 'Revenue', secondary: 'Other Revenue', tertiary: 'Interest Income', normalBalance: 'CREDIT' },
+    { code: '5000', name: 'Cost of Sales', primary: 'Expenses', secondary: 'Operating Expenses', tertiary: 'Cost of Sales', normalBalance: 'DEBIT' },
+    { code: '5100', name: 'Employee Benefits', primary: 'Expenses', secondary: 'Operating Expenses', tertiary: 'Employee Benefits', normalBalance: 'DEBIT' },
+    { code: '5200', name: 'Office Expenses', primary: 'Expenses', secondary: 'Operating Expenses', tertiary: 'Office Expenses', normalBalance: 'DEBIT' }
+  ]
+};
+
+export function loadCharts(): ChartOfAccounts[] {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    if (!stored) return [];
+    const parsed = z.array(ChartOfAccountsSchema).safeParse(JSON.parse(stored));
+    return parsed.success ? parsed.data : [];
+  } catch (error) {
+    console.error('Failed to load charts of accounts:', error);
+    return [];
+  }
+}
+
+export function saveChart(chart: ChartOfAccounts): ChartOfAccounts[] {
+  const charts = [
+    ...loadCharts().filter(existing => existing.name !== chart.name),
+    chart
+  ];
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(charts));
+  return charts;
+}
+
+export function deleteChart(name: string): ChartOfAccounts[] {
+  const charts = loadCharts().filter(chart => chart.name !== name);
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(charts));
+  return charts;
+}
+
+export function loadSelectedChartName(): string {
+  return localStorage.getItem(SELECTED_KEY) ?? STANDARD_CHART.name;
+}
+
+export function saveSelectedChartName(name: string) {
+  localStorage.setItem(SELECTED_KEY, name);
+}
+
+/**
+ * Builds the code lookup used by classification, one entry per chart account.
+ */
+export function chartToClassificationMap(chart: ChartOfAccounts): Record<string, AccountClassification> {
+  const reasoning = chart.name === STANDARD_CHART.name
+    ? 'Direct match with standard chart of accounts'
+    : `Direct match with chart of accounts "${chart.name}"`;
+
+  return Object.fromEntries(chart.accounts.map(account => [account.code, {
+    primary: account.primary,
+    secondary: account.secondary || account.primary,
+    tertiary: account.tertiary || account.name || account.secondary || account.primary,
+    confidence: 1,
+    reasoning,
+    normalBalance: account.normalBalance
+  }]));
+}
+
+function parseNormalBalance(value: unknown): NormalBalance | undefined {
+  const text = String(value ?? '').trim().toLowerCase();
+  if (['debit', 'dr', 'd', 'db'].includes(text)) return 'DEBIT';
+  if (['credit', 'cr', 'c'].includes(text)) return 'CREDIT';
+  return undefined;
+}
+
+function formatIssue(error: z.ZodError, rowOffset: number): string {
+  const issue = error.issues[0];
+  const [row, field] = issue.path;
+  return typeof row === 'number'
+    ? `Row ${row + rowOffset}${field ? ` (${String(field)})` : ''}: ${issue.message}`
+    : issue.message;
+}
+
+function validateAccounts(rows: unknown[], rowOffset: number): ChartAccount[] {
+  const result = z.array(ChartAccountSchema).min(1, 'The chart has no accounts').safeParse(rows);
+  if (!result.success) throw new Error(formatIssue(result.error, rowOffset));
+
+  const seen = new Set<string>();
+  result.data.forEach((account, index) => {
+    if (seen.has(account.code)) {
+      throw new Error(`Row ${index + rowOffset}: account code ${account.code} appears more than once`);
+    }
+    seen.add(account.code);
+  });
+  return result.data;
+}
+
+function parseJsonChart(text: string): ChartAccount[] {
+  const json: unknown = JSON.parse(text);
+  // Accept either a bare list of accounts or an exported chart with an accounts list
+  const rows = Array.isArray(json) ? json : (json as { accounts?: unknown }).accounts;
+  if (!Array.isArray(rows)) throw new Error('JSON charts must be a list of accounts or have an "accounts" list');
+
+  return validateAccounts(rows.map(row => {
+    const account = row as Record<string, unknown>;
+    return {
+      ...account,
+      code: account.code === undefined ? undefined : String(account.code),
+      normalBalance: parseNormalBalance(account.normalBalance)
+    };
+  }), 1);
+}
+
+function parseSheetChart(buffer: ArrayBuffer, fileName: string, format: NonNullable<ReturnType<typeof detectInputFormat>>): ChartAccount[] {
+  const { workbook } = readInputWorkbook(buffer, fileName, format);
+  const worksheet = workbook.Sheets[workbook.SheetNames[0]];
+  const [headerRow = [], ...rows] = utils.sheet_to_json<unknown[]>(worksheet, { header: 1, defval: null });
+
+  const headers = headerRow.map(header => normalizeHeader(String(header ?? '')));
+  const columns = Object.fromEntries(
+    (Object.keys(CHART_COLUMN_SYNONYMS) as ChartColumn[]).map(column => {
+      const synonyms: readonly string[] = CHART_COLUMN_SYNONYMS[column];
+      return [column, headers.findIndex(header => synonyms.includes(header))];
+    })
+  ) as Record<ChartColumn, number>;
+
+  if (columns.code < 0 || columns.primary < 0) {
+    throw new Error('The chart needs at least a code and a primary category column');
+  }
+
+  const cell = (row: unknown[], column: ChartColumn) =>
+    columns[column] >= 0 && row[columns[column]] !== null ? String(row[columns[column]]).trim() : undefined;
+
+  const accounts = rows
+    .filter(row => row.some(value => value !== null && String(value).trim() !== ''))
+    .map(row => ({
+      code: cell(row, 'code'),
+      name: cell(row, 'name'),
+      primary: cell(row, 'primary'),
+      secondary: cell(row, 'secondary'),
+      tertiary: cell(row, 'tertiary'),
+      normalBalance: parseNormalBalance(cell(row, 'normalBalance'))
+    }));
+
+  // Report spreadsheet row numbers, counting the header row
+  return validateAccounts(accounts, 2);
+}
+
+/**
+ * Reads a chart of accounts from a CSV, spreadsheet or JSON file and validates
+ * it. The chart is named after the file.
+ */
+export async function importChartFile(file: File): Promise<ChartOfAccounts> {
+  const name = file.name.replace(/\.[^.]+$/, '').trim() || 'Imported chart';
+  const isJson = file.name.toLowerCase().endsWith('.json') || file.type === 'application/json';
+
+  let accounts: ChartAccount[];
+  if (isJson) {
+    accounts = parseJsonChart(await file.text());
+  } else {
+    const format = detectInputFormat(file);
+    if (!format) throw new Error('Charts of accounts must be CSV, XLSX, ODS or JSON files');
+    accounts = parseSheetChart(await file.arrayBuffer(), file.name, format);
+  }
+
+  return ChartOfAccountsSchema.parse({ name, accounts, createdAt: new Date().toISOString() });
+}
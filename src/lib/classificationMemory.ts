@@ -0,0 +1,170 @@
+import { z } from 'zod';
+import { LearnedClassificationSchema } from './types';
+import type { AccountClassification, FinancialEntry, LearnedClassification } from './types';
+
+const STORAGE_KEY = 'financial-processor:classification-memory';
+const PROFILE_KEY = 'financial-processor:memory-profile';
+const REMOTE_TABLE = 'classification_memory';
+
+export const DEFAULT_PROFILE = 'Default';
+export const LEARNED_REASONING = 'Previously confirmed by user';
+
+const MemoryStoreSchema = z.record(z.array(LearnedClassificationSchema));
+type MemoryStore = z.infer<typeof MemoryStoreSchema>;
+
+function isRemoteEnabled(): boolean {
+  return import.meta.env.VITE_CLASSIFICATION_MEMORY === 'supabase';
+}
+
+/** Lowercases and strips punctuation so "Petty Cash - HQ" and "petty cash hq" match */
+export function normalizeAccountName(accountName: string): string {
+  return accountName.toLowerCase().replace(/[^\p{L}\p{N}]+/gu, ' ').trim();
+}
+
+export function learnedKey(accountCode: string, accountName: string): string {
+  return `${accountCode.trim()}|${normalizeAccountName(accountName)}`;
+}
+
+function loadStore(): MemoryStore {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    if (!stored) return {};
+    const parsed = MemoryStoreSchema.safeParse(JSON.parse(stored));
+    return parsed.success ? parsed.data : {};
+  } catch (error) {
+    console.error('Failed to load classification memory:', error);
+    return {};
+  }
+}
+
+function saveStore(store: MemoryStore) {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(store));
+}
+
+export function loadProfiles(): string[] {
+  return [...new Set([DEFAULT_PROFILE, ...Object.keys(loadStore())])];
+}
+
+export function loadActiveProfile(): string {
+  return localStorage.getItem(PROFILE_KEY) ?? DEFAULT_PROFILE;
+}
+
+export function saveActiveProfile(profile: string) {
+  localStorage.setItem(PROFILE_KEY, profile);
+}
+
+export function loadLearnedClassifications(profile: string): LearnedClassification[] {
+  return loadStore()[profile] ?? [];
+}
+
+function saveProfile(profile: string, learned: LearnedClassification[]): LearnedClassification[] {
+  const store = loadStore();
+  store[profile] = learned;
+  saveStore(store);
+  return learned;
+}
+
+/**
+ * Supabase is only loaded when remote memory is enabled, because the client
+ * module requires its environment variables at import time.
+ */
+async function remoteClient() {
+  const { supabase } = await import('./supabase');
+  return supabase;
+}
+
+function syncRemote(action: (client: Awaited<ReturnType<typeof remoteClient>>) => PromiseLike<{ error: unknown }>) {
+  if (!isRemoteEnabled()) return;
+  remoteClient()
+    .then(action)
+    .then(({ error }) => {
+      if (error) console.error('Failed to sync classification memory:', error);
+    })
+    .catch(error => console.error('Failed to sync classification memory:', error));
+}
+
+export function rememberClassification(
+  profile: string,
+  entry: Pick<FinancialEntry, 'accountCode' | 'accountName'>,
+  classification: AccountClassification
+): LearnedClassification[] {
+  const learned: LearnedClassification = {
+    accountCode: entry.accountCode.trim(),
+    accountName: entry.accountName,
+    normalizedName: normalizeAccountName(entry.accountName),
+    classification,
+    confirmedAt: new Date().toISOString()
+  };
+  const key = learnedKey(learned.accountCode, learned.accountName);
+
+  syncRemote(client => client.from(REMOTE_TABLE).upsert({
+    profile,
+    account_code: learned.accountCode,
+    normalized_name: learned.normalizedName,
+    account_name: learned.accountName,
+    classification: learned.classification,
+    confirmed_at: learned.confirmedAt
+  }, { onConflict: 'profile,account_code,normalized_name' }));
+
+  return saveProfile(profile, [
+    ...loadLearnedClassifications(profile).filter(item => learnedKey(item.accountCode, item.accountName) !== key),
+    learned
+  ]);
+}
+
+export function forgetClassification(profile: string, learned: LearnedClassification): LearnedClassification[] {
+  const key = learnedKey(learned.accountCode, learned.accountName);
+
+  syncRemote(client => client.from(REMOTE_TABLE).delete()
+    .eq('profile', profile)
+    .eq('account_code', learned.accountCode)
+    .eq('normalized_name', learned.normalizedName));
+
+  return saveProfile(profile, loadLearnedClassifications(profile)
+    .filter(item => learnedKey(item.accountCode, item.accountName) !== key));
+}
+
+export function purgeProfile(profile: string): LearnedClassification[] {
+  syncRemote(client => client.from(REMOTE_TABLE).delete().eq('profile', profile));
+
+  const store = loadStore();
+  delete store[profile];
+  saveStore(store);
+  return [];
+}
+
+/**
+ * Merges the profile's remote memory into browser storage, keeping whichever
+ * confirmation is newer. Returns the local memory unchanged when remote memory
+ * is disabled or unreachable.
+ */
+export async function pullRemoteClassifications(profile: string): Promise<LearnedClassification[]> {
+  const local = loadLearnedClassifications(profile);
+  if (!isRemoteEnabled()) return local;
+
+  try {
+    const client = await remoteClient();
+    const { data, error } = await client.from(REMOTE_TABLE).select('*').eq('profile', profile);
+    if (error) throw error;
+
+    const merged = new Map(local.map(item => [learnedKey(item.accountCode, item.accountName), item]));
+    (data ?? []).forEach(row => {
+      const parsed = LearnedClassificationSchema.safeParse({
+        accountCode: row.account_code,
+        accountName: row.account_name,
+        normalizedName: row.normalized_name,
+        classification: row.classification,
+        confirmedAt: row.confirmed_at
+      });
+      if (!parsed.success) return;
+      const key = learnedKey(parsed.data.accountCode, parsed.data.accountName);
+      const existing = merged.get(key);
+      if (!existing || existing.confirmedAt < parsed.data.confirmedAt) merged.set(key, parsed.data);
+    });
+
+    return saveProfile(profile, Array.from(merged.values()));
+  } catch (error) {
+    console.error('Failed to load remote classification memory:', error);
+    return local;
+  }
+}
@@ -0,0 +1,275 @@
+import { z } from 'zod';
+import { CodeRuleSetSchema } from './types';
+import type { AccountClassification, CodeRule, CodeRuleSet, EvidenceSignal } from './types';
+import { createCandidate, createSignal } from './evidence';
+
+const STORAGE_KEY = 'financial-processor:code-rule-sets';
+const SELECTED_KEY = 'financial-processor:selected-code-rules';
+
+// Rules covering at most this many codes are specific enough to decide a line item
+const NARROW_RULE_WIDTH = 100;
+// Scores 0.315 at the code-range weight, under the weakest keyword signal (0.32)
+const BROAD_RULE_STRENGTH = 0.35;
+
+export interface CodeRuleMatch {
+  rule: CodeRule;
+  /** Segment of the account code the rule was evaluated against */
+  naturalAccount: string;
+  classification: AccountClassification;
+  signal: EvidenceSignal;
+}
+
+type RuleInput = [label: string, match: string, primary: string, secondary: string, tertiary: string];
+
+/**
+ * Builds rules from compact rows. "1000-1999" is a range, anything else is a
+ * pattern where x or ? stands for one character and * for any run.
+ */
+function buildRules(rows: RuleInput[]): CodeRule[] {
+  return rows.map(([label, match, primary, secondary, tertiary]) => {
+    const range = match.match(/^(\w+)-(\w+)$/);
+    return {
+      label,
+      match: range ? { type: 'range', from: range[1], to: range[2] } : { type: 'pattern', pattern: match },
+      primary,
+      secondary,
+      tertiary,
+      normalBalance: primary === 'Assets' || primary === 'Expenses' ? 'DEBIT' : 'CREDIT'
+    };
+  });
+}
+
+const FOUR_DIGIT_RULES = buildRules([
+  ['Assets', '1000-1999', 'Assets', 'Assets', 'Other Assets'],
+  ['Cash', '1000-1099', 'Assets', 'Current Assets', 'Cash and Cash Equivalents'],
+  ['Receivables', '1100-1199', 'Assets', 'Current Assets', 'Accounts Receivable'],
+  ['Inventory', '1200-1299', 'Assets', 'Current Assets', 'Inventory'],
+  ['Prepayments', '1300-1399', 'Assets', 'Current Assets', 'Prepayments'],
+  ['Property, plant and equipment', '1500-1599', 'Assets', 'Non-Current Assets', 'Property, Plant and Equipment'],
+  ['Intangibles', '1600-1699', 'Assets', 'Non-Current Assets', 'Intangible Assets'],
+  ['Investments', '1700-1799', 'Assets', 'Non-Current Assets', 'Investments'],
+  ['Liabilities', '2000-2999', 'Liabilities', 'Liabilities', 'Other Liabilities'],
+  ['Payables', '2000-2099', 'Liabilities', 'Current Liabilities', 'Accounts Payable'],
+  ['Short-term loans', '2100-2199', 'Liabilities', 'Current Liabilities', 'Short-term Loans'],
+  ['Accruals', '2200-2299', 'Liabilities', 'Current Liabilities', 'Accruals'],
+  ['Long-term loans', '2500-2599', 'Liabilities', 'Non-Current Liabilities', 'Long-term Loans'],
+  ['Deferred tax', '2600-2699', 'Liabilities', 'Non-Current Liabilities', 'Deferred Tax'],
+  ['Equity', '3000-3999', 'Equity', 'Equity', 'Other Equity'],
+  ['Share capital', '3000-3099', 'Equity', 'Capital', 'Share Capital'],
+  ['Retained earnings', '3100-3199', 'Equity', 'Retained Earnings', 'Accumulated Profits'],
+  ['Reserves', '3200-3299', 'Equity', 'Reserves', 'Reserves'],
+  ['Revenue', '4000-4999', 'Revenue', 'Revenue', 'Other Revenue'],
+  ['Sales', '4000-4099', 'Revenue', 'Operating Revenue', 'Sales Revenue'],
+  ['Interest income', '4100-4199', 'Revenue', 'Other Revenue', 'Interest Income'],
+  ['Expenses', '5000-9999', 'Expenses', 'Expenses', 'Other Expenses'],
+  ['Cost of sales', '5000-5099', 'Expenses', 'Operating Expenses', 'Cost of Sales'],
+  ['Employee benefits', '5100-5199', 'Expenses', 'Operating Expenses', 'Employee Benefits'],
+  ['Office expenses', '5200-5299', 'Expenses', 'Operating Expenses', 'Office Expenses'],
+  ['Operating expenses', '6000-6999', 'Expenses', 'Operating Expenses', 'Other Operating Expenses'],
+  ['Financial expenses', '7000-7999', 'Expenses', 'Financial Expenses', 'Finance Costs']
+]);
+
+/** Numbering schemes shipped with the app; they cannot be edited or deleted */
+export const BUILT_IN_RULE_SETS: CodeRuleSet[] = [
+  {
+    name: 'Four-digit standard',
+    description: '1xxx assets, 2xxx liabilities, 3xxx equity, 4xxx revenue, 5xxx-9xxx expenses',
+    segmentSeparators: '-./ ',
+    rules: FOUR_DIGIT_RULES
+  },
+  {
+    name: 'Three-digit (Xero style)',
+    description: '2xx revenue, 3xx direct costs, 4xx-5xx expenses, 6xx-7xx assets, 8xx-9xx liabilities and equity',
+    segmentSeparators: '-./ ',
+    rules: buildRules([
+      ['Bank accounts', '090-099', 'Assets', 'Current Assets', 'Cash and Cash Equivalents'],
+      ['Revenue', '200-299', 'Revenue', 'Operating Revenue', 'Sales Revenue'],
+      ['Other revenue', '260-269', 'Revenue', 'Other Revenue', 'Other Revenue'],
+      ['Interest income', '270-279', 'Revenue', 'Other Revenue', 'Interest Income'],
+      ['Direct costs', '300-399', 'Expenses', 'Operating Expenses', 'Cost of Sales'],
+      ['Expenses', '400-599', 'Expenses', 'Operating Expenses', 'Other Operating Expenses'],
+      ['Wages and salaries', '477-479', 'Expenses', 'Operating Expenses', 'Employee Benefits'],
+      ['Current assets', '600-699', 'Assets', 'Current Assets', 'Other Current Assets'],
+      ['Accounts receivable', '610', 'Assets', 'Current Assets', 'Accounts Receivable'],
+      ['Prepayments', '620', 'Assets', 'Current Assets', 'Prepayments'],
+      ['Inventory', '630', 'Assets', 'Current Assets', 'Inventory'],
+      ['Fixed assets', '700-799', 'Assets', 'Non-Current Assets', 'Property, Plant and Equipment'],
+      ['Current liabilities', '800-899', 'Liabilities', 'Current Liabilities', 'Other Current Liabilities'],
+      ['Accounts payable', '800', 'Liabilities', 'Current Liabilities', 'Accounts Payable'],
+      ['Non-current liabilities', '900-949', 'Liabilities', 'Non-Current Liabilities', 'Long-term Loans'],
+      ['Equity', '950-999', 'Equity', 'Equity', 'Other Equity'],
+      ['Retained earnings', '960', 'Equity', 'Retained Earnings', 'Accumulated Profits']
+    ])
+  },
+  {
+    name: 'Segmented entity-account-department',
+    description: 'Codes like 01-1500-200 where the middle segment is a four-digit natural account',
+    segmentSeparators: '-./ ',
+    naturalSegment: 1,
+    rules: FOUR_DIGIT_RULES
+  }
+];
+
+export const DEFAULT_RULE_SET = BUILT_IN_RULE_SETS[0];
+
+function splitSegments(accountCode: string, separators: string): string[] {
+  const pattern = new RegExp(`[${separators.replace(/[\]\\^-]/g, '\\$&')}]+`);
+  return accountCode.trim().split(pattern).filter(Boolean);
+}
+
+function typicalCodeLength(ruleSet: CodeRuleSet): number {
+  const lengths = ruleSet.rules.map(({ match }) => match.type === 'range' ? match.from.length : match.pattern.length);
+  const counts = new Map<number, number>();
+  lengths.forEach(length => counts.set(length, (counts.get(length) ?? 0) + 1));
+  return [...counts.entries()].sort((a, b) => b[1] - a[1])[0]?.[0] ?? 0;
+}
+
+/**
+ * Picks the natural account out of a segmented code. Without a configured
+ * segment, the first segment as long as the scheme's codes is used, falling
+ * back to the first segment.
+ */
+export function naturalAccount(ruleSet: CodeRuleSet, accountCode: string): string {
+  const segments = splitSegments(accountCode, ruleSet.segmentSeparators);
+  if (segments.length <= 1) return accountCode.trim();
+
+  if (ruleSet.naturalSegment !== undefined) {
+    return segments[ruleSet.naturalSegment] ?? accountCode.trim();
+  }
+  const length = typicalCodeLength(ruleSet);
+  return segments.find(segment => segment.length === length) ?? segments[0];
+}
+
+function patternToRegExp(pattern: string): RegExp {
+  const source = pattern.split('').map(char => {
+    if (char === 'x' || char === 'X' || char === '?') return '.';
+    if (char === '*') return '.*';
+    return char.replace(/[.+^${}()|[\]\\]/g, '\\$&');
+  }).join('');
+  return new RegExp(`^${source}$`, 'i');
+}
+
+function inRange(code: string, from: string, to: string): boolean {
+  // Numeric codes compare as numbers so "1999" falls in 1000-1999 but "15000" does not
+  if (/^\d+$/.test(code) && /^\d+$/.test(from) && /^\d+$/.test(to)) {
+    const value = Number(code);
+    return value >= Number(from) && value <= Number(to);
+  }
+  return code.length === from.length &&
+    code.localeCompare(from, undefined, { numeric: true }) >= 0 &&
+    code.localeCompare(to, undefined, { numeric: true }) <= 0;
+}
+
+function ruleMatches(rule: CodeRule, code: string): boolean {
+  return rule.match.type === 'range'
+    ? inRange(code, rule.match.from, rule.match.to)
+    : patternToRegExp(rule.match.pattern).test(code);
+}
+
+/**
+ * Number of codes a rule covers; narrower rules are more specific. Wildcards
+ * count ten codes per character and a * is treated as very broad.
+ */
+export function ruleWidth(rule: CodeRule): number {
+  if (rule.match.type === 'range') {
+    const { from, to } = rule.match;
+    return /^\d+$/.test(from) && /^\d+$/.test(to) ? Math.abs(Number(to) - Number(from)) + 1 : 1e6;
+  }
+  return rule.match.pattern.split('').reduce((width, char) => {
+    if (char === '*') return width * 1e6;
+    if (char === 'x' || char === 'X' || char === '?') return width * 10;
+    return width;
+  }, 1);
+}
+
+export function describeRule(rule: CodeRule): string {
+  const match = rule.match.type === 'range' ? `${rule.match.from}–${rule.match.to}` : rule.match.pattern;
+  return `${rule.label} (${match})`;
+}
+
+/**
+ * Evaluates a rule set against an account code. The most specific matching
+ * rule wins; rules of equal width keep their order in the set.
+ */
+export function evaluateCodeRules(ruleSet: CodeRuleSet, accountCode: string): CodeRuleMatch | null {
+  if (!accountCode.trim()) return null;
+  const code = naturalAccount(ruleSet, accountCode);
+
+  let best: CodeRule | null = null;
+  for (const rule of ruleSet.rules) {
+    if (ruleMatches(rule, code) && (!best || ruleWidth(rule) < ruleWidth(best))) best = rule;
+  }
+  if (!best) return null;
+
+  // Only narrow ranges such as 1200-1299 can outrank the account's name; a
+  // catch-all like 1000-1999 scores below any keyword match
+  const specificity = ruleWidth(best) <= NARROW_RULE_WIDTH ? 1 : BROAD_RULE_STRENGTH;
+  const segmentNote = code !== accountCode.trim() ? ` on natural account ${code}` : '';
+  const signal = createSignal(
+    'code-range',
+    `Code rule ${describeRule(best)} from "${ruleSet.name}" matched${segmentNote}`,
+    specificity,
+    [code]
+  );
+  const { classification } = createCandidate({
+    primary: best.primary,
+    secondary: best.secondary || best.primary,
+    tertiary: best.tertiary || best.secondary || best.primary,
+    matchedRule: `${ruleSet.name}: ${describeRule(best)}`,
+    normalBalance: best.normalBalance
+  }, signal);
+  return { rule: best, naturalAccount: code, classification, signal };
+}
+
+export function loadRuleSets(): CodeRuleSet[] {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    if (!stored) return [];
+    const parsed = z.array(CodeRuleSetSchema).safeParse(JSON.parse(stored));
+    return parsed.success ? parsed.data : [];
+  } catch (error) {
+    console.error('Failed to load code rule sets:', error);
+    return [];
+  }
+}
+
+export function saveRuleSet(ruleSet: CodeRuleSet): CodeRuleSet[] {
+  const ruleSets = [
+    ...loadRuleSets().filter(existing => existing.name !== ruleSet.name),
+    ruleSet
+  ];
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(ruleSets));
+  return ruleSets;
+}
+
+export function deleteRuleSet(name: string): CodeRuleSet[] {
+  const ruleSets = loadRuleSets().filter(ruleSet => ruleSet.name !== name);
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(ruleSets));
+  return ruleSets;
+}
+
+export function loadSelectedRuleSetName(): string {
+  return localStorage.getItem(SELECTED_KEY) ?? DEFAULT_RULE_SET.name;
+}
+
+export function saveSelectedRuleSetName(name: string) {
+  localStorage.setItem(SELECTED_KEY, name);
+}
+
+/**
+ * Reads a rule set from JSON. A missing name is taken from the file name.
+ */
+export async function importRuleSetFile(file: File): Promise<CodeRuleSet> {
+  const json: unknown = JSON.parse(await file.text());
+  const fallbackName = file.name.replace(/\.[^.]+$/, '').trim() || 'Imported rules';
+  const input = json && typeof json === 'object' && !Array.isArray(json)
+    ? { name: fallbackName, ...json }
+    : { name: fallbackName, rules: json };
+
+  const result = CodeRuleSetSchema.safeParse(input);
+  if (!result.success) {
+    const issue = result.error.issues[0];
+    throw new Error(`${issue.path.join('.') || 'Rule set'}: ${issue.message}`);
+  }
+  return result.data;
+}
@@ -0,0 +1,128 @@
+import { COLUMN_SYNONYMS } from './constants';
+import { foldAccents } from './keywordPacks';
+import type { ColumnSynonyms } from './keywordPacks';
+import type { ColumnField, ColumnMapping } from './types';
+
+export interface ColumnResolution {
+  mapping: ColumnMapping;
+  scores: Partial<Record<ColumnField, number>>;
+  confidence: number;
+  isConfident: boolean;
+}
+
+export const COLUMN_FIELD_LABELS: Record<ColumnField, string> = {
+  accountCode: 'Account Code',
+  accountName: 'Account Name',
+  debit: 'Debit',
+  credit: 'Credit',
+  balance: 'Net Balance'
+};
+
+const SIDE_WORDS = ['debit', 'dr', 'dr.', 'credit', 'cr', 'cr.'];
+
+// Scores below this are guesses and require the user to confirm the mapping
+const CONFIDENT_SCORE = 0.8;
+
+export function normalizeHeader(header: string): string {
+  return header.toLowerCase().replace(/\s+/g, ' ').trim();
+}
+
+function compact(value: string): string {
+  return value.replace(/[\s_-]+/g, '');
+}
+
+function scoreHeader(header: string, field: ColumnField, columnSynonyms: ColumnSynonyms): number {
+  // Accents are ignored so "Débit" and "debit" or "Crédito" and "credito" match
+  const folded = foldAccents(header);
+  const synonyms = columnSynonyms[field].map(foldAccents);
+  if (synonyms.some(synonym => synonym === folded || compact(synonym) === compact(folded))) return 1;
+
+  // Partial matches on whole words, e.g. "closing debit balance"
+  const words = folded.split(/[\s_-]+/);
+
+  // "Debit balance" style headers belong to one side, never to the net balance
+  if (field === 'balance' && words.some(word => SIDE_WORDS.includes(word))) return 0;
+
+  const best = synonyms.reduce((score, synonym) => {
+    const synonymWords = synonym.split(' ');
+    const matched = synonymWords.every(word => words.includes(word));
+    return matched ? Math.max(score, 0.6 + 0.3 * (synonymWords.length / words.length)) : score;
+  }, 0);
+
+  return Math.min(0.9, best);
+}
+
+/**
+ * Returns the field a single header most likely names, or null when it does
+ * not resemble any known column.
+ */
+export function classifyHeader(
+  header: string,
+  synonyms: ColumnSynonyms = COLUMN_SYNONYMS
+): { field: ColumnField; score: number } | null {
+  const normalized = normalizeHeader(header);
+  if (!normalized) return null;
+
+  let best: { field: ColumnField; score: number } | null = null;
+  (Object.keys(COLUMN_SYNONYMS) as ColumnField[]).forEach(field => {
+    const score = scoreHeader(normalized, field, synonyms);
+    if (score > 0 && (!best || score > best.score)) best = { field, score };
+  });
+  return best;
+}
+
+/**
+ * A mapping is usable when it names the account and has either a debit/credit
+ * pair or a single net balance column.
+ */
+export function isMappingComplete(mapping: ColumnMapping): boolean {
+  if (!mapping.accountName && !mapping.accountCode) return false;
+  return Boolean((mapping.debit && mapping.credit) || mapping.balance);
+}
+
+/**
+ * Maps headers to fields using the given synonyms; pass a locale's synonyms
+ * from columnSynonymsFor to recognise headers such as "Soll" and "Haben".
+ */
+export function resolveColumns(headers: string[], synonyms: ColumnSynonyms = COLUMN_SYNONYMS): ColumnResolution {
+  const normalized = headers.map(normalizeHeader).filter(Boolean);
+  const candidates: { field: ColumnField; header: string; score: number }[] = [];
+
+  (Object.keys(COLUMN_SYNONYMS) as ColumnField[]).forEach(field => {
+    normalized.forEach(header => {
+      const score = scoreHeader(header, field, synonyms);
+      if (score > 0) candidates.push({ field, header, score });
+    });
+  });
+
+  // Assign greedily by score so each header is used for a single field
+  const mapping: ColumnMapping = {};
+  const scores: ColumnResolution['scores'] = {};
+  const usedHeaders = new Set<string>();
+  candidates
+    .sort((a, b) => b.score - a.score)
+    .forEach(({ field, header, score }) => {
+      if (mapping[field] || usedHeaders.has(header)) return;
+      mapping[field] = header;
+      scores[field] = score;
+      usedHeaders.add(header);
+    });
+
+  // A net balance column is redundant when both sides are present
+  if (mapping.debit && mapping.credit && mapping.balance) {
+    delete mapping.balance;
+    delete scores.balance;
+  }
+
+  const mappedFields = Object.keys(mapping) as ColumnField[];
+  const confidence = mappedFields.length > 0
+    ? Math.min(...mappedFields.map(field => scores[field] ?? 0))
+    : 0;
+
+  return {
+    mapping,
+    scores,
+    confidence,
+    isConfident: isMappingComplete(mapping) && confidence >= CONFIDENT_SCORE
+  };
+}
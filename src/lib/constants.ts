@@ -66,4 +66,136 @@ export const FINANCIAL_KEYWORDS = {
       }
     }
   }
-} as const;
\ No newline at end of file
+} as const;
+
+export const COLUMN_SYNONYMS = {
+  accountCode: [
+    'account code', 'account no', 'account no.', 'account number', 'acc code', 'acc no',
+    'a/c no', 'a/c no.', 'a/c code', 'gl code', 'gl account', 'ledger code', 'code', 'no.', 'number'
+  ],
+  accountName: [
+    'account name', 'account', 'description', 'account description', 'particulars',
+    'details', 'name', 'item', 'ledger', 'ledger name', 'a/c name', 'account title'
+  ],
+  debit: [
+    'debit', 'dr', 'dr.', 'debit amount', 'debits', 'debit bal', 'debit balance', 'charges'
+  ],
+  credit: [
+    'credit', 'cr', 'cr.', 'credit amount', 'credits', 'credit bal', 'credit balance', 'payments'
+  ],
+  balance: [
+    'balance', 'net balance', 'closing balance', 'net', 'amount', 'net amount', 'ending balance'
+  ]
+} as const;
+
+// Upload limit when VITE_MAX_FILE_SIZE_MB is not set
+export const DEFAULT_MAX_FILE_SIZE_MB = 100;
+
+// Report titles and metadata lines printed above exported tables
+export const METADATA_ROW_PATTERN = /^(company|entity|client|period|date|as at|as of|for the (year|period|month|quarter)|year ended|period ended|prepared|printed|run date|report|currency|page)\b/i;
+
+export const CHART_COLUMN_SYNONYMS = {
+  code: ['code', 'account code', 'account no', 'account no.', 'account number', 'gl code', 'a/c no'],
+  name: ['name', 'account name', 'account', 'description', 'account description'],
+  primary: ['primary', 'category', 'class', 'account class', 'account type', 'type'],
+  secondary: ['secondary', 'sub category', 'subcategory', 'group', 'account group'],
+  tertiary: ['tertiary', 'detail', 'line item', 'sub group', 'subgroup'],
+  normalBalance: ['normal balance', 'normal', 'balance', 'dr/cr', 'side', 'nature']
+} as const;
+
+// Subtotal and grand total rows, matched against the account code and name
+export const TOTAL_ROW_PATTERN = /\b(?:sub-?|sous-|grand\s+)?totals?\b|\bsumme\b|\bjumlah\b/i;
+
+// Classifications below this confidence are sent for review
+export const REVIEW_CONFIDENCE_THRESHOLD = 0.8;
+
+// Secondary label of the fallback classification given when no signal matched
+export const UNRESOLVED_SECONDARY = 'Needs Review';
+
+// Usual side of each primary category, keyed by the lowercased category name
+export const NORMAL_BALANCES: Record<string, 'DEBIT' | 'CREDIT'> = {
+  assets: 'DEBIT',
+  expenses: 'DEBIT',
+  liabilities: 'CREDIT',
+  equity: 'CREDIT',
+  revenue: 'CREDIT'
+};
+
+// Accounts that offset their category and so sit on the opposite side. Patterns
+// are compared as account name tokens, so abbreviations such as "Accum. dep'n"
+// and plurals need no spellings of their own
+export const CONTRA_ACCOUNTS = [
+  {
+    label: 'Allowance for doubtful debts',
+    primary: 'assets',
+    patterns: ['allowance for doubtful', 'allowance for bad', 'provision for doubtful', 'provision for bad debt', 'bad debt provision', 'expected credit loss', 'allowance for credit loss']
+  },
+  {
+    label: 'Accumulated depreciation',
+    primary: 'assets',
+    patterns: ['accumulated depreciation', 'accumulated amortisation', 'accumulated impairment']
+  },
+  {
+    label: 'Drawings',
+    primary: 'equity',
+    patterns: ['drawings', 'owner withdrawal', 'dividends paid', 'dividends declared', 'treasury shares', 'treasury stock']
+  },
+  {
+    label: 'Sales returns',
+    primary: 'revenue',
+    patterns: ['sales return', 'returns inward', 'sales allowance', 'discounts allowed', 'sales discount']
+  },
+  {
+    label: 'Purchase returns',
+    primary: 'expenses',
+    patterns: ['purchase return', 'returns outward', 'discounts received', 'purchase discount']
+  }
+] as const;
+
+// Words that say nothing about an account's nature when comparing account names
+export const ACCOUNT_NAME_STOP_WORDS = [
+  'a', 'an', 'and', 'the', 'of', 'for', 'to', 'on', 'in', 'at', 'by', 'from', 'with', 'other', 'misc', 'miscellaneous',
+  'account', 'accounts', 'ac', 'acct', 'total', 'balance', 'net', 'general', 'sundry',
+  'de', 'des', 'du', 'la', 'le', 'les', 'et', 'sur', 'und', 'der', 'die', 'das', 'aus', 'fur', 'von',
+  'y', 'del', 'los', 'las', 'el', 'dan', 'atas', 'untuk', 'lain', 'lainnya', 'akun'
+];
+
+// Abbreviations found in account names, keyed by the lowercased abbreviation without its trailing dot
+export const ACCOUNT_NAME_ABBREVIATIONS: Record<string, string> = {
+  'a/c': 'account',
+  'a/cs': 'accounts',
+  'acc': 'account',
+  'accum': 'accumulated',
+  'accm': 'accumulated',
+  "dep'n": 'depreciation',
+  'depn': 'depreciation',
+  'depr': 'depreciation',
+  'deprec': 'depreciation',
+  "amort'n": 'amortisation',
+  'amort': 'amortisation',
+  'amortization': 'amortisation',
+  'prov': 'provision',
+  'provn': 'provision',
+  "prov'n": 'provision',
+  'rec': 'receivable',
+  'recv': 'receivable',
+  'rcv': 'receivable',
+  'a/r': 'accounts receivable',
+  'a/p': 'accounts payable',
+  'pybl': 'payable',
+  'exp': 'expense',
+  'exps': 'expenses',
+  'int': 'interest',
+  'inv': 'inventory',
+  'equip': 'equipment',
+  'furn': 'furniture',
+  'f&f': 'furniture fittings',
+  'ppe': 'property plant equipment',
+  'sal': 'salaries',
+  'adv': 'advances',
+  'admin': 'administration',
+  'mgmt': 'management',
+  'govt': 'government',
+  'st': 'short term',
+  'lt': 'long term'
+};
@@ -0,0 +1,137 @@
+import type { AccountClassification, EvidenceSignal, EvidenceSignalType } from './types';
+
+/**
+ * How far each signal type is trusted. A signal's score is its strength times
+ * this weight, so a perfect fuzzy code match can never outrank an exact one.
+ */
+export const SIGNAL_WEIGHTS: Record<EvidenceSignalType, number> = {
+  manual: 1,
+  learned: 1,
+  'exact-code': 1,
+  'chart-name': 0.9,
+  'code-range': 0.9,
+  keyword: 0.8,
+  'fuzzy-code': 0.7,
+  'similar-entry': 0.7,
+  fallback: 0.3
+};
+
+export const SIGNAL_LABELS: Record<EvidenceSignalType, string> = {
+  manual: 'Manual',
+  learned: 'Learned',
+  'exact-code': 'Exact code',
+  'chart-name': 'Chart name',
+  'code-range': 'Code range',
+  keyword: 'Keyword',
+  'fuzzy-code': 'Fuzzy code',
+  'similar-entry': 'Similar entry',
+  fallback: 'Fallback'
+};
+
+/** Added to the best score for every other signal pointing at the same node */
+export const AGREEMENT_BONUS = 0.05;
+
+// A shared word with an earlier account or a code that merely looks alike only backs up another signal
+const SUPPORTING_ONLY: EvidenceSignalType[] = ['similar-entry', 'fuzzy-code'];
+
+export interface EvidenceCandidate {
+  classification: AccountClassification;
+  signal: EvidenceSignal;
+}
+
+function round(value: number): number {
+  return Math.round(value * 1000) / 1000;
+}
+
+function formatScore(value: number): string {
+  return String(round(value));
+}
+
+function sameNode(a: AccountClassification, b: AccountClassification): boolean {
+  return a.primary === b.primary && a.secondary === b.secondary && a.tertiary === b.tertiary;
+}
+
+export function createSignal(
+  type: EvidenceSignalType,
+  detail: string,
+  strength: number,
+  matchedTerms: string[] = []
+): EvidenceSignal {
+  const clamped = Math.max(0, Math.min(1, strength));
+  const weight = SIGNAL_WEIGHTS[type];
+  return { type, detail, matchedTerms, strength: round(clamped), weight, score: round(clamped * weight) };
+}
+
+/**
+ * Pairs a classification with the signal behind it; the classification's
+ * confidence and reasoning are taken from the signal.
+ */
+export function createCandidate(
+  classification: Omit<AccountClassification, 'confidence' | 'reasoning'>,
+  signal: EvidenceSignal
+): EvidenceCandidate {
+  return {
+    classification: {
+      ...classification,
+      confidence: signal.score,
+      reasoning: signal.detail,
+      evidence: undefined,
+      scoring: undefined
+    },
+    signal
+  };
+}
+
+/** A classification resting on one signal, such as a chart code or a manual choice */
+export function withSingleSignal(
+  classification: Omit<AccountClassification, 'confidence' | 'reasoning'>,
+  signal: EvidenceSignal
+): AccountClassification {
+  return {
+    ...createCandidate(classification, signal).classification,
+    evidence: [{ ...signal, selected: true }],
+    scoring: `${SIGNAL_LABELS[signal.type]} ${formatScore(signal.strength)} × ${formatScore(signal.weight)} = ${formatScore(signal.score)}`
+  };
+}
+
+/**
+ * Picks the highest scoring candidate and adds AGREEMENT_BONUS for each other
+ * signal with the same classification. Candidates pointing elsewhere become
+ * alternatives. Returns a null classification when only supporting signals
+ * were found.
+ */
+export function combineEvidence(candidates: EvidenceCandidate[]): {
+  classification: AccountClassification | null;
+  alternatives: AccountClassification[];
+} {
+  const ranked = [...candidates].sort((a, b) => b.signal.score - a.signal.score);
+  const best = ranked.find(candidate => !SUPPORTING_ONLY.includes(candidate.signal.type));
+
+  const alternatives = ranked
+    .filter(candidate => !best || !sameNode(candidate.classification, best.classification))
+    .map(candidate => ({ ...candidate.classification, evidence: [candidate.signal] }));
+  if (!best) return { classification: null, alternatives };
+
+  const agreeing = ranked.filter(candidate => candidate !== best && sameNode(candidate.classification, best.classification));
+  const confidence = round(Math.min(1, best.signal.score + AGREEMENT_BONUS * agreeing.length));
+
+  const bestTerm = `${SIGNAL_LABELS[best.signal.type]} ${formatScore(best.signal.strength)} × ${formatScore(best.signal.weight)}`;
+  const scoring = agreeing.length > 0
+    ? `${bestTerm} + ${AGREEMENT_BONUS} × ${agreeing.length} agreeing (${agreeing.map(candidate => SIGNAL_LABELS[candidate.signal.type]).join(', ')}) = ${formatScore(confidence)}`
+    : `${bestTerm} = ${formatScore(confidence)}`;
+
+  return {
+    classification: {
+      ...best.classification,
+      confidence,
+      evidence: [
+        { ...best.signal, selected: true },
+        ...ranked
+          .filter(candidate => candidate !== best)
+          .map(candidate => ({ ...candidate.signal, agrees: agreeing.includes(candidate) }))
+      ],
+      scoring
+    },
+    alternatives
+  };
+}
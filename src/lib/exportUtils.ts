@@ -1,33 +1,155 @@
-import { utils, write } from 'xlsx';
+import { utils, write, WorkBook } from 'xlsx';
 import { saveAs } from 'file-saver';
-import type { TrialBalance } from './types';
+import type { ProcessedFile, StatementLine, TrialBalance } from './types';
+import { FRAMEWORK_DETAILS, resolveTaxonomyConcept } from './taxonomy';
+import type { PeriodComparison } from './periodComparison';
 
-export function exportToExcel(data: TrialBalance) {
-  const workbook = utils.book_new();
-
-  // Create Trial Balance sheet
+function buildTrialBalanceSheet(data: TrialBalance) {
   const trialBalanceData = data.entries.map(entry => ({
+    'Sheet': entry.sheetName,
     'Account Code': entry.accountCode,
     'Account Name': entry.accountName,
     'Classification': `${entry.classification.primary} > ${entry.classification.secondary} > ${entry.classification.tertiary}`,
+    'Line Item': resolveTaxonomyConcept(entry.classification)?.tertiary ?? '',
+    [`${FRAMEWORK_DETAILS[data.reportingFramework].label} Element`]: entry.classification.elementId ?? '',
     'Confidence': `${Math.round(entry.classification.confidence * 100)}%`,
+    'Source': entry.classification.manual ? 'Manual' : entry.classification.learned ? 'Learned' : 'Automatic',
     'Debit': entry.debit || '',
     'Credit': entry.credit || '',
+    'Source Rows': entry.rowCount ?? '',
+    'Matched Rule': entry.classification.matchedRule ?? '',
+    'Scoring': entry.classification.scoring ?? '',
+    'Manually Classified': entry.classification.manual ? 'Yes' : '',
+    'Reviewer Reasoning': entry.classification.manual ? entry.classification.reasoning : '',
   }));
 
   const trialBalanceSheet = utils.json_to_sheet(trialBalanceData);
-  utils.book_append_sheet(workbook, trialBalanceSheet, 'Trial Balance');
 
   // Add totals row
   const totalRow = {
+    'Sheet': '',
     'Account Code': '',
     'Account Name': 'TOTAL',
     'Classification': '',
+    'Line Item': '',
+    [`${FRAMEWORK_DETAILS[data.reportingFramework].label} Element`]: '',
     'Confidence': '',
+    'Source': '',
     'Debit': data.totalDebits,
     'Credit': data.totalCredits,
+    'Source Rows': '',
+    'Matched Rule': '',
+    'Scoring': '',
+    'Manually Classified': '',
+    'Reviewer Reasoning': '',
   };
   utils.sheet_add_json(trialBalanceSheet, [totalRow], { skipHeader: true, origin: -1 });
+  return trialBalanceSheet;
+}
+
+/**
+ * Excel limits sheet names to 31 characters and forbids a few symbols, so file
+ * names are trimmed and numbered when two files would share a tab.
+ */
+function uniqueSheetName(fileName: string, usedNames: Set<string>): string {
+  const baseName = (fileName.replace(/\.[^.]+$/, '').replace(/[\\/?*[\]:]/g, ' ').trim() || 'File').slice(0, 31);
+  let name = baseName;
+  for (let suffix = 2; usedNames.has(name.toLowerCase()); suffix++) {
+    name = `${baseName.slice(0, 31 - String(suffix).length - 1)} ${suffix}`;
+  }
+  usedNames.add(name.toLowerCase());
+  return name;
+}
+
+// Statement lines are indented by nesting level so the sheet reads like the statement
+function buildStatementSheet(lines: StatementLine[]) {
+  return utils.json_to_sheet(lines.map(line => ({
+    'Line Item': `${'  '.repeat(line.depth)}${line.label}`,
+    'Amount': line.amount ?? '',
+    'Entries': line.entryCount ?? '',
+  })));
+}
+
+function saveWorkbook(workbook: WorkBook, prefix: string) {
+  const excelBuffer = write(workbook, { bookType: 'xlsx', type: 'array' });
+  const blob = new Blob([excelBuffer], { type: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet' });
+
+  // Generate filename with timestamp
+  const timestamp = new Date().toISOString().replace(/[:.]/g, '-').slice(0, 19);
+  saveAs(blob, `${prefix}-${timestamp}.xlsx`);
+}
+
+const VARIANCE_STATUS_LABELS: Record<PeriodComparison['accounts'][number]['status'], string> = {
+  matched: '',
+  new: 'New',
+  dropped: 'Dropped',
+  reclassified: 'Reclassified'
+};
+
+/** Category variances followed by account variances, largest movements first */
+function buildVarianceSheet(comparison: PeriodComparison, priorLabel: string) {
+  const categoryRows = comparison.categories.map(category => ({
+    'Level': 'Category',
+    'Account Code': '',
+    'Account Name': category.category,
+    'Classification': '',
+    'Prior Classification': '',
+    'Status': '',
+    'Matched By': '',
+    'Current': category.current,
+    [priorLabel]: category.prior,
+    'Variance': category.variance,
+    'Variance %': category.variancePercent ?? '',
+    'Needs Explanation': category.flagged ? 'Yes' : '',
+  }));
+  const accountRows = comparison.accounts.map(account => ({
+    'Level': 'Account',
+    'Account Code': account.accountCode,
+    'Account Name': account.accountName,
+    'Classification': account.status === 'dropped' ? '' : account.classification,
+    'Prior Classification': account.priorClassification ?? '',
+    'Status': VARIANCE_STATUS_LABELS[account.status],
+    'Matched By': account.matchedBy ?? '',
+    'Current': account.current,
+    [priorLabel]: account.prior,
+    'Variance': account.variance,
+    'Variance %': account.variancePercent ?? '',
+    'Needs Explanation': account.flagged ? 'Yes' : '',
+  }));
+  return utils.json_to_sheet([...categoryRows, ...accountRows]);
+}
+
+export function exportToExcel(data: TrialBalance, comparison?: { result: PeriodComparison; priorFileName: string }) {
+  const workbook = utils.book_new();
+
+  // Create Trial Balance sheet
+  utils.book_append_sheet(workbook, buildTrialBalanceSheet(data), 'Trial Balance');
+
+  // Create financial statement sheets
+  utils.book_append_sheet(workbook, buildStatementSheet(data.statements.balanceSheet.lines), 'Financial Position');
+  utils.book_append_sheet(workbook, buildStatementSheet(data.statements.incomeStatement.lines), 'Profit or Loss');
+
+  // Create Ratios sheet
+  const ratioData = data.ratios.map(ratio => ({
+    'Ratio': ratio.label,
+    'Value': ratio.value ?? '',
+    'Unit': ratio.unit,
+    'Formula': ratio.formula,
+    'Inputs': ratio.inputs
+      .map(input => `${input.label}: ${input.missing ? 'none' : input.amount}`)
+      .join('\n'),
+    'Flags': ratio.flags.join('\n'),
+  }));
+  utils.book_append_sheet(workbook, utils.json_to_sheet(ratioData), 'Ratios');
+
+  // Create Variance sheet against the prior period
+  if (comparison) {
+    utils.book_append_sheet(
+      workbook,
+      buildVarianceSheet(comparison.result, `Prior (${comparison.priorFileName})`),
+      'Variance'
+    );
+  }
 
   // Create Uncertain Classifications sheet
   if (data.uncertainClassifications.length > 0) {
@@ -45,6 +167,35 @@ export function exportToExcel(data: TrialBalance) {
     utils.book_append_sheet(workbook, uncertainSheet, 'Uncertain Classifications');
   }
 
+  // Create Category Totals sheet
+  if (data.categoryTotals.length > 0) {
+    const categoryData = data.categoryTotals.map(total => ({
+      'Category': total.category,
+      'Entries': total.entryCount,
+      'Debit': total.debit,
+      'Credit': total.credit,
+      'Net': total.net,
+    }));
+    const categorySheet = utils.json_to_sheet(categoryData);
+    utils.book_append_sheet(workbook, categorySheet, 'Category Totals');
+  }
+
+  // Create Unusual Balances sheet
+  if (data.balanceWarnings.length > 0) {
+    const warningData = data.balanceWarnings.map(warning => ({
+      'Severity': warning.severity,
+      'Sheet': warning.sheetName,
+      'Account Code': warning.accountCode,
+      'Account Name': warning.accountName,
+      'Expected Side': warning.expectedSide,
+      'Actual Side': warning.actualSide ?? '',
+      'Amount': warning.amount,
+      'Issue': warning.message,
+    }));
+    const warningSheet = utils.json_to_sheet(warningData);
+    utils.book_append_sheet(workbook, warningSheet, 'Unusual Balances');
+  }
+
   // Create Summary sheet
   if (data.totalsSummary.length > 0) {
     const summaryData = data.totalsSummary.map(summary => ({
@@ -57,6 +208,26 @@ export function exportToExcel(data: TrialBalance) {
     utils.book_append_sheet(workbook, summarySheet, 'Summary');
   }
 
+  // Create Total Reconciliation sheet
+  if (data.totalReconciliations.length > 0) {
+    const reconciliationData = data.totalReconciliations.map(reconciliation => ({
+      'Sheet': reconciliation.sheetName,
+      'Row': reconciliation.rowIndex + 1,
+      'Total': reconciliation.name,
+      'Scope': reconciliation.scope,
+      'Categories': reconciliation.categories.join(', '),
+      'Status': reconciliation.matches ? 'Matches' : 'Mismatch',
+      'Stated': reconciliation.comparisons.map(comparison => `${comparison.side}: ${comparison.stated}`).join('\n'),
+      'Computed': reconciliation.comparisons.map(comparison => `${comparison.side}: ${comparison.computed}`).join('\n'),
+      'Difference': reconciliation.comparisons.map(comparison => `${comparison.side}: ${comparison.difference}`).join('\n'),
+      'Entries': reconciliation.entryCount,
+      'Rows': reconciliation.rows
+        .map(row => `${row.rowIndex + 1}: ${[row.accountCode, row.accountName].filter(Boolean).join(' ')}`)
+        .join('\n'),
+    }));
+    utils.book_append_sheet(workbook, utils.json_to_sheet(reconciliationData), 'Total Reconciliation');
+  }
+
   // Create Processing Logs sheet
   const logsData = data.processingLogs.map(log => ({
     'Timestamp': new Date(log.timestamp).toLocaleString(),
@@ -67,13 +238,35 @@ export function exportToExcel(data: TrialBalance) {
   const logsSheet = utils.json_to_sheet(logsData);
   utils.book_append_sheet(workbook, logsSheet, 'Processing Logs');
 
-  // Generate Excel file
-  const excelBuffer = write(workbook, { bookType: 'xlsx', type: 'array' });
-  const blob = new Blob([excelBuffer], { type: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet' });
-  
-  // Generate filename with timestamp
-  const timestamp = new Date().toISOString().replace(/[:.]/g, '-').slice(0, 19);
-  const filename = `financial-analysis-${timestamp}.xlsx`;
-  
-  saveAs(blob, filename);
-}
\ No newline at end of file
+  saveWorkbook(workbook, 'financial-analysis');
+}
+
+/**
+ * Exports every processed file into one workbook with a Trial Balance tab per
+ * file, preceded by an overview of the file totals.
+ */
+export function exportAllToExcel(files: ProcessedFile[]) {
+  const workbook = utils.book_new();
+  const usedNames = new Set(['files']);
+
+  const sheetNames = files.map(({ fileName }) => uniqueSheetName(fileName, usedNames));
+
+  const overviewData = files.map(({ fileName, trialBalance }, index) => ({
+    'File': fileName,
+    'Sheet': sheetNames[index],
+    'Entries': trialBalance.entries.length,
+    'Framework': FRAMEWORK_DETAILS[trialBalance.reportingFramework].label,
+    'Total Debits': trialBalance.totalDebits,
+    'Total Credits': trialBalance.totalCredits,
+    'Balanced': trialBalance.isBalanced ? 'Yes' : 'No',
+    'Unusual Balances': trialBalance.balanceWarnings.length,
+    'Net Profit': trialBalance.statements.incomeStatement.netProfit,
+  }));
+  utils.book_append_sheet(workbook, utils.json_to_sheet(overviewData), 'Files');
+
+  files.forEach(({ trialBalance }, index) => {
+    utils.book_append_sheet(workbook, buildTrialBalanceSheet(trialBalance), sheetNames[index]);
+  });
+
+  saveWorkbook(workbook, 'financial-analysis-batch');
+}
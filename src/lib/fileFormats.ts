@@ -0,0 +1,205 @@
+import { read, utils, WorkBook } from 'xlsx';
+
+export type InputFormat = 'xlsx' | 'xls' | 'ods' | 'csv' | 'tsv';
+
+export const SUPPORTED_FORMATS: Record<InputFormat, { label: string; mimeTypes: string[] }> = {
+  xlsx: {
+    label: 'Excel workbook',
+    mimeTypes: ['application/vnd.openxmlformats-officedocument.spreadsheetml.sheet']
+  },
+  xls: {
+    label: 'Excel 97-2003 workbook',
+    mimeTypes: ['application/vnd.ms-excel']
+  },
+  ods: {
+    label: 'OpenDocument spreadsheet',
+    mimeTypes: ['application/vnd.oasis.opendocument.spreadsheet']
+  },
+  csv: {
+    label: 'Comma or semicolon separated values',
+    mimeTypes: ['text/csv', 'application/csv', 'text/x-csv']
+  },
+  tsv: {
+    label: 'Tab separated values',
+    mimeTypes: ['text/tab-separated-values']
+  }
+};
+
+export const SUPPORTED_EXTENSIONS = (Object.keys(SUPPORTED_FORMATS) as InputFormat[]).map(format => `.${format}`);
+
+export interface DelimitedTextDetails {
+  encoding: string;
+  delimiter: string;
+  decimalSeparator: '.' | ',';
+}
+
+export interface InputWorkbook {
+  workbook: WorkBook;
+  format: InputFormat;
+  /** Only set for CSV and TSV input */
+  textDetails?: DelimitedTextDetails;
+}
+
+const DELIMITER_CANDIDATES = [',', ';', '\t', '|'];
+const SAMPLE_LINES = 50;
+
+export function detectInputFormat(file: File): InputFormat | null {
+  const extension = file.name.split('.').pop()?.toLowerCase();
+  if (extension && extension in SUPPORTED_FORMATS) {
+    return extension as InputFormat;
+  }
+
+  // Fall back to the MIME type for files without a usable extension
+  const match = (Object.entries(SUPPORTED_FORMATS) as [InputFormat, { mimeTypes: string[] }][])
+    .find(([, { mimeTypes }]) => mimeTypes.includes(file.type));
+  return match ? match[0] : null;
+}
+
+export function detectEncoding(bytes: Uint8Array): string {
+  if (bytes[0] === 0xef && bytes[1] === 0xbb && bytes[2] === 0xbf) return 'utf-8';
+  if (bytes[0] === 0xff && bytes[1] === 0xfe) return 'utf-16le';
+  if (bytes[0] === 0xfe && bytes[1] === 0xff) return 'utf-16be';
+
+  // Exports from older accounting packages are often Windows-1252 rather than UTF-8
+  try {
+    new TextDecoder('utf-8', { fatal: true }).decode(bytes);
+    return 'utf-8';
+  } catch {
+    return 'windows-1252';
+  }
+}
+
+/**
+ * Splits delimited text into rows, honouring double-quoted fields that may
+ * contain delimiters, escaped quotes or line breaks.
+ */
+export function parseDelimitedText(text: string, delimiter: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let inQuotes = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+
+    if (inQuotes) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+      continue;
+    }
+
+    if (char === '"' && field === '') {
+      inQuotes = true;
+    } else if (char === delimiter) {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+
+  if (field !== '' || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+
+  return rows;
+}
+
+export function detectDelimiter(text: string): string {
+  const lines = text.split(/\r?\n/).filter(line => line.trim()).slice(0, SAMPLE_LINES);
+
+  let best = { delimiter: ',', score: 0, columns: 0 };
+  DELIMITER_CANDIDATES.forEach(delimiter => {
+    const counts = lines.map(line => parseDelimitedText(line, delimiter)[0]?.length ?? 0);
+
+    // Prefer the delimiter that gives the most lines the same number of columns
+    const frequency = new Map<number, number>();
+    counts.filter(count => count > 1).forEach(count => frequency.set(count, (frequency.get(count) ?? 0) + 1));
+    frequency.forEach((score, columns) => {
+      if (score > best.score || (score === best.score && columns > best.columns)) {
+        best = { delimiter, score, columns };
+      }
+    });
+  });
+
+  return best.delimiter;
+}
+
+export function detectDecimalSeparator(rows: string[][]): '.' | ',' {
+  let commaVotes = 0;
+  let dotVotes = 0;
+
+  rows.slice(0, SAMPLE_LINES * 4).forEach(row => row.forEach(value => {
+    const cell = value.trim().replace(/^[-(]/, '').replace(/\)$/, '');
+    if (/^\d{1,3}(\.\d{3})+,\d+$/.test(cell) || /^\d+,\d{1,2}$/.test(cell)) commaVotes++;
+    else if (/^\d{1,3}(,\d{3})+\.\d+$/.test(cell) || /^\d+\.\d{1,2}$/.test(cell)) dotVotes++;
+  }));
+
+  return commaVotes > dotVotes ? ',' : '.';
+}
+
+/**
+ * Converts plain numeric text to numbers using the detected decimal separator.
+ * Anything with currency symbols or side markers is left as text.
+ */
+function convertNumericCell(value: string, decimalSeparator: '.' | ','): string | number {
+  const cell = value.trim();
+
+  // Keep codes with leading zeros such as "0100" as text
+  if (/^-?0\d/.test(cell)) return value;
+
+  const thousands = decimalSeparator === ',' ? '[. ]' : '[, ]';
+  const pattern = new RegExp(`^-?\\d{1,3}(${thousands}\\d{3})*(\\${decimalSeparator}\\d+)?$|^-?\\d+(\\${decimalSeparator}\\d+)?$`);
+  if (!pattern.test(cell)) return value;
+
+  const normalized = decimalSeparator === ','
+    ? cell.replace(/[. ]/g, '').replace(',', '.')
+    : cell.replace(/[, ]/g, '');
+  return Number(normalized);
+}
+
+function sheetNameFromFile(fileName: string): string {
+  const baseName = fileName.replace(/\.[^.]+$/, '').replace(/[\\/?*[\]:]/g, ' ').trim();
+  return (baseName || 'Sheet1').slice(0, 31);
+}
+
+function readDelimitedWorkbook(buffer: ArrayBuffer, fileName: string, format: 'csv' | 'tsv'): InputWorkbook {
+  const bytes = new Uint8Array(buffer);
+  const encoding = detectEncoding(bytes);
+  const text = new TextDecoder(encoding).decode(bytes);
+
+  const delimiter = format === 'tsv' ? '\t' : detectDelimiter(text);
+  const textRows = parseDelimitedText(text, delimiter);
+  const decimalSeparator = detectDecimalSeparator(textRows);
+
+  const rows = textRows.map(row => row.map(value => value === '' ? null : convertNumericCell(value, decimalSeparator)));
+
+  const workbook = utils.book_new();
+  utils.book_append_sheet(workbook, utils.aoa_to_sheet(rows), sheetNameFromFile(fileName));
+
+  return {
+    workbook,
+    format,
+    textDetails: { encoding, delimiter, decimalSeparator }
+  };
+}
+
+export function readInputWorkbook(buffer: ArrayBuffer, fileName: string, format: InputFormat): InputWorkbook {
+  if (format === 'csv' || format === 'tsv') {
+    return readDelimitedWorkbook(buffer, fileName, format);
+  }
+  return { workbook: read(buffer), format };
+}
@@ -1,4 +1,4 @@
-import { read, utils, WorkSheet } from 'xlsx';
+import { utils, Range, WorkBook, WorkSheet } from 'xlsx';
 import { Decimal } from 'decimal.js';
 import { findBestMatch } from 'string-similarity';
 import type { 
@@ -7,131 +7,136 @@ import type {
   AccountClassification,
   DetectedTable,
   ProcessingLog,
-  ClassificationResult,
   UnmatchedEntry,
-  TotalSummary
+  TotalSummary,
+  ColumnField,
+  ColumnMapping,
+  ChartOfAccounts,
+  CodeRuleSet,
+  LearnedClassification
 } from './types';
-import { FINANCIAL_KEYWORDS } from './constants';
-import type { FinancialLabel } from './jigsawApi';
-
-// Enhanced classification mapping with more detailed patterns
-const classificationMap: Record<string, AccountClassification> = {
-  // Assets
-  "1000": {
-    primary: "Assets",
-    secondary: "Current Assets",
-    tertiary: "Cash and Cash Equivalents",
-    confidence: 1,
-    reasoning: "Direct match with standard chart of accounts"
-  },
-  "1100": {
-    primary: "Assets",
-    secondary: "Current Assets",
-    tertiary: "Accounts Receivable",
-    confidence: 1,
-    reasoning: "Direct match with standard chart of accounts"
-  },
-  "1200": {
-    primary: "Assets",
-    secondary: "Current Assets",
-    tertiary: "Inventory",
-    confidence: 1,
-    reasoning: "Direct match with standard chart of accounts"
-  },
-  "1500": {
-    primary: "Assets",
-    secondary: "Non-Current Assets",
-    tertiary: "Property, Plant and Equipment",
-    confidence: 1,
-    reasoning: "Direct match with standard chart of accounts"
-  },
-  
-  // Liabilities
-  "2000": {
-    primary: "Liabilities",
-    secondary: "Current Liabilities", 
-    tertiary: "Accounts Payable",
-    confidence: 1,
-    reasoning: "Direct match with standard chart of accounts"
-  },
-  "2100": {
-    primary: "Liabilities",
-    secondary: "Current Liabilities",
-    tertiary: "Short-term Loans",
-    confidence: 1,
-    reasoning: "Direct match with standard chart of accounts"
-  },
-  "2500": {
-    primary: "Liabilities",
-    secondary: "Non-Current Liabilities",
-    tertiary: "Long-term Loans",
-    confidence: 1,
-    reasoning: "Direct match with standard chart of accounts"
-  },
-
-  // Equity
-  "3000": {
-    primary: "Equity",
-    secondary: "Capital",
-    tertiary: "Share Capital",
-    confidence: 1,
-    reasoning: "Direct match with standard chart of accounts"
-  },
-  "3100": {
-    primary: "Equity",
-    secondary: "Retained Earnings",
-    tertiary: "Accumulated Profits",
-    confidence: 1,
-    reasoning: "Direct match with standard chart of accounts"
-  },
-
-  // Revenue
-  "4000": {
-    primary: "Revenue",
-    secondary: "Operating Revenue",
-    tertiary: "Sales Revenue",
-    confidence: 1,
-    reasoning: "Direct match with standard chart of accounts"
-  },
-  "4100": {
-    primary: "Revenue",
-    secondary: "Other Revenue",
-    tertiary: "Interest Income",
-    confidence: 1,
-    reasoning: "Direct match with standard chart of accounts"
-  },
-
-  // Expenses
-  "5000": {
-    primary: "Expenses",
-    secondary: "Operating Expenses",
-    tertiary: "Cost of Sales",
-    confidence: 1,
-    reasoning: "Direct match with standard chart of accounts"
-  },
-  "5100": {
-    primary: "Expenses",
-    secondary: "Operating Expenses",
-    tertiary: "Employee Benefits",
-    confidence: 1,
-    reasoning: "Direct match with standard chart of accounts"
-  },
-  "5200": {
-    primary: "Expenses",
-    secondary: "Operating Expenses",
-    tertiary: "Office Expenses",
-    confidence: 1,
-    reasoning: "Direct match with standard chart of accounts"
-  }
-};
+import { METADATA_ROW_PATTERN, REVIEW_CONFIDENCE_THRESHOLD, TOTAL_ROW_PATTERN, UNRESOLVED_SECONDARY } from './constants';
+import { hasRequiredLabels, localLabelProvider } from './labelProviders';
+import type { FinancialLabel, LabelProvider } from './labelProviders';
+import { classifyHeader, isMappingComplete, normalizeHeader, resolveColumns } from './columnResolver';
+import { detectInputFormat, readInputWorkbook, SUPPORTED_FORMATS } from './fileFormats';
+import type { InputWorkbook } from './fileFormats';
+import { parseAmount } from './amountParser';
+import type { DecimalSeparator } from './amountParser';
+import { chartToClassificationMap, STANDARD_CHART } from './chartOfAccounts';
+import { calculateCategoryTotals } from './categoryTotals';
+import { checkBalances } from './balanceChecks';
+import { diagnoseImbalance } from './balanceDiagnostics';
+import { buildFinancialStatements } from './financialStatements';
+import { calculateRatios } from './financialRatios';
+import { reconcileTotals } from './totalsReconciliation';
+import type { StatedTotal } from './totalsReconciliation';
+import { LEARNED_REASONING, learnedKey } from './classificationMemory';
+import { DEFAULT_RULE_SET, evaluateCodeRules, naturalAccount } from './codeRules';
+import { NameSimilarityIndex } from './nameSimilarity';
+import { combineEvidence, createCandidate, createSignal, withSingleSignal } from './evidence';
+import type { EvidenceCandidate } from './evidence';
+import {
+  columnSynonymsFor,
+  detectKeywordLocale,
+  foldAccents,
+  KEYWORD_PACKS,
+  keywordNodesFor,
+  statementKeywordsFor
+} from './keywordPacks';
+import type { ColumnSynonyms, KeywordLocale, KeywordLocaleSetting, KeywordNode, StatementType } from './keywordPacks';
+import { DEFAULT_FRAMEWORK, FRAMEWORK_DETAILS, resolveTaxonomyConcept, withTaxonomyElement } from './taxonomy';
+import type { ReportingFramework } from './taxonomy';
+
+export interface ProcessingOptions {
+  /** Source of header labels for table detection; defaults to the local header scan */
+  labelProvider?: LabelProvider;
+  /** Sheets whose tables should be left out when building entries */
+  excludedSheets?: string[];
+  /** Confirmed column mappings keyed by table name; other tables are resolved from their headers */
+  columnMappings?: Record<string, ColumnMapping>;
+  /** Decimal separator for text amounts; detected from CSV input or "." by default */
+  decimalSeparator?: DecimalSeparator;
+  onProgress?: (progress: ProcessingProgress) => void;
+  /**
+   * Combine rows for the same account into one balance. Defaults to on for
+   * ledgers with at least LARGE_LEDGER_ROWS rows.
+   */
+  aggregateByAccount?: boolean;
+  /** Chart of accounts consulted before any other rule; defaults to the standard chart */
+  chartOfAccounts?: ChartOfAccounts;
+  /** Classifications the user confirmed on earlier files for the active profile */
+  learnedClassifications?: LearnedClassification[];
+  /** Account numbering rules evaluated after the chart; defaults to the four-digit standard */
+  codeRuleSet?: CodeRuleSet;
+  /** Language of the keyword pack used next to English; detected from the file by default */
+  keywordLocale?: KeywordLocaleSetting;
+  /** Taxonomy whose element IDs are attached to each classification; defaults to IFRS for SMEs */
+  reportingFramework?: ReportingFramework;
+}
+
+export interface ProcessingProgress {
+  stage: 'reading' | 'detecting' | 'classifying' | 'totals';
+  message: string;
+  current?: number;
+  total?: number;
+}
+
+type RawRow = unknown[];
+
+interface TableRegion {
+  headerRow: number;
+  /** Every row combined into the headers, starting with headerRow */
+  headerRows: number[];
+  /** Title and metadata rows directly above the headers */
+  titleRows: number[];
+  startCol: number;
+  endCol: number;
+  lastRow: number;
+  /** Lowercased header text per column, combined across header rows and empty where blank */
+  headers: string[];
+}
+
+interface MappedRow {
+  accountCode: string;
+  accountName: string;
+  debit: unknown;
+  credit: unknown;
+  balance: unknown;
+  /** Cell address of each mapped field, used when reporting bad values */
+  cells: Partial<Record<ColumnField, string>>;
+}
 
 export class FinancialProcessor {
   private static readonly SIMILARITY_THRESHOLD = 0.6;
+  /** Keyword strength of a single match; the share of the node's keywords matched is added to it */
+  private static readonly KEYWORD_BASE_STRENGTH = 0.4;
   private static readonly MIN_TABLE_ROWS = 2;
   private static readonly MIN_FINANCIAL_KEYWORDS = 2;
+  private static readonly MAX_HEADER_ROWS = 3;
   private static processingLogs: ProcessingLog[] = [];
-  private static processedEntries: Map<string, FinancialEntry> = new Map();
+  private static readonly CHUNK_SIZE = 5000;
+  private static readonly LARGE_LEDGER_ROWS = 5000;
+  /** Names of accounts classified so far in the run, for similar-entry evidence */
+  private static nameIndex: NameSimilarityIndex<FinancialEntry> = new NameSimilarityIndex();
+  private static classificationCache: Map<string, ReturnType<typeof FinancialProcessor.classifyAccount>> = new Map();
   private static unmatchedEntries: UnmatchedEntry[] = [];
+  private static classificationMap: Record<string, AccountClassification> = chartToClassificationMap(STANDARD_CHART);
+  /** Chart account codes keyed by lowercased account name */
+  private static chartNames: Map<string, string> = new Map();
+  private static chartName = STANDARD_CHART.name;
+  private static learnedClassifications: Map<string, LearnedClassification> = new Map();
+  private static codeRuleSet: CodeRuleSet = DEFAULT_RULE_SET;
+  private static readonly LOCALE_SAMPLE_ROWS = 50;
+  private static keywordLocale: KeywordLocale = 'en';
+  private static keywordNodes: KeywordNode[] = keywordNodesFor('en');
+  private static columnSynonyms: ColumnSynonyms = columnSynonymsFor('en');
+  private static statementKeywords: Record<StatementType, string[]> = FinancialProcessor.statementKeywordsFor('en');
+  private static decimalSeparator: DecimalSeparator = '.';
+  private static labelCache: WeakMap<File, FinancialLabel[]> = new WeakMap();
+  private static mergeOrigins: WeakMap<WorkSheet, Map<string, { r: number; c: number }>> = new WeakMap();
+  private static progressListener: ProcessingOptions['onProgress'];
+  private static readonly PROGRESS_INTERVAL = 250;
 
   private static log(level: ProcessingLog['level'], message: string, details?: Record<string, unknown>) {
     const log: ProcessingLog = {
@@ -148,138 +153,188 @@ export class FinancialProcessor {
     }
   }
 
-  private static findSimilarEntries(accountName: string): FinancialEntry[] {
-    const similarEntries: FinancialEntry[] = [];
-    const words = accountName.toLowerCase().split(' ');
+  private static reportProgress(stage: ProcessingProgress['stage'], message: string, current?: number, total?: number) {
+    this.progressListener?.({ stage, message, current, total });
+  }
 
-    this.processedEntries.forEach(entry => {
-      const entryWords = entry.accountName.toLowerCase().split(' ');
-      const commonWords = words.filter(word => entryWords.includes(word));
-      if (commonWords.length > 0) {
-        similarEntries.push(entry);
-      }
+  private static rememberEntry(accountCode: string, accountName: string, classification: AccountClassification) {
+    this.nameIndex.add(accountName, {
+      accountCode,
+      accountName,
+      debit: 0,
+      credit: 0,
+      classification,
+      sheetName: '',
+      sourceTable: '',
+      rowIndex: 0
     });
+  }
 
-    return similarEntries;
-  }
-
-  private static findSimilarAccountCode(accountCode: string): string | null {
-    const codes = Object.keys(classificationMap);
-    const { bestMatch } = findBestMatch(accountCode, codes);
-    return bestMatch.rating >= this.SIMILARITY_THRESHOLD ? bestMatch.target : null;
-  }
-
-  private static classifyByKeywords(accountName: string): ClassificationResult[] {
-    const results: ClassificationResult[] = [];
-    const accountNameLower = accountName.toLowerCase();
-
-    // Check for matches in each category
-    Object.entries(FINANCIAL_KEYWORDS.HIERARCHICAL).forEach(([primary, secondaryGroups]) => {
-      Object.entries(secondaryGroups).forEach(([secondary, tertiaryGroups]) => {
-        Object.entries(tertiaryGroups).forEach(([tertiary, keywords]) => {
-          if (Array.isArray(keywords)) {
-            const matches = keywords.filter(keyword => accountNameLower.includes(keyword.toLowerCase()));
-            if (matches.length > 0) {
-              const confidence = matches.length / keywords.length;
-              results.push({
-                classification: {
-                  primary,
-                  secondary,
-                  tertiary,
-                  confidence: Math.min(0.8, confidence + 0.3),
-                  reasoning: `Matched keywords: ${matches.join(', ')}`
-                },
-                matchedTerms: matches
-              });
-            }
-          }
-        });
-      });
+  private static useChart(chart: ChartOfAccounts) {
+    this.chartName = chart.name;
+    this.classificationMap = chartToClassificationMap(chart);
+    this.chartNames = new Map(
+      chart.accounts
+        .filter(account => account.name)
+        .map(account => [account.name.trim().toLowerCase(), account.code])
+    );
+    this.log('INFO', `Using chart of accounts "${chart.name}"`, { accounts: chart.accounts.length });
+  }
+
+  /**
+   * Returns the most similar chart code and its similarity rating from 0 to 1.
+   * Only codes of the same length sharing the leading half are compared, so
+   * "1400" can resemble "1410" but never "4100".
+   */
+  private static findSimilarAccountCode(accountCode: string): { code: string; rating: number } | null {
+    const code = accountCode.trim();
+    const prefix = code.slice(0, Math.ceil(code.length / 2));
+    const codes = Object.keys(this.classificationMap)
+      .filter(candidate => candidate.length === code.length && candidate.startsWith(prefix));
+    if (!code || codes.length === 0) return null;
+    const { bestMatch } = findBestMatch(code, codes);
+    return bestMatch.rating >= this.SIMILARITY_THRESHOLD ? { code: bestMatch.target, rating: bestMatch.rating } : null;
+  }
+
+  private static classifyByKeywords(accountName: string): EvidenceCandidate[] {
+    const results: EvidenceCandidate[] = [];
+    const accountNameFolded = foldAccents(accountName);
+
+    // Check for matches in each category of the active keyword packs
+    this.keywordNodes.forEach(({ locale, primary, secondary, tertiary, keywords, foldedKeywords }) => {
+      const matches = keywords.filter((_, index) => accountNameFolded.includes(foldedKeywords[index]));
+      if (matches.length > 0) {
+        const language = locale === 'en' ? '' : ` (${KEYWORD_PACKS[locale].label})`;
+        const signal = createSignal(
+          'keyword',
+          `Matched keywords${language}: ${matches.join(', ')}`,
+          this.KEYWORD_BASE_STRENGTH + matches.length / keywords.length,
+          matches
+        );
+        // Report the taxonomy's labels rather than the keyword node names
+        const concept = resolveTaxonomyConcept({ primary, secondary, tertiary });
+        results.push(createCandidate({
+          primary: concept?.primary ?? primary,
+          secondary: concept?.secondary ?? secondary,
+          tertiary: concept?.tertiary ?? tertiary
+        }, signal));
+      }
     });
 
-    return results.sort((a, b) => b.classification.confidence - a.classification.confidence);
+    return results;
   }
 
   private static classifyAccount(accountCode: string, accountName: string): {
     classification: AccountClassification;
     alternatives: AccountClassification[];
   } {
-    // First try exact match with account code
-    if (classificationMap[accountCode]) {
-      return {
-        classification: classificationMap[accountCode],
+    // Ledgers repeat the same account on many rows, so reuse earlier results
+    const cacheKey = this.accountKey(accountCode, accountName);
+    const cached = this.classificationCache.get(cacheKey);
+    if (cached) return cached;
+
+    // Classifications the user confirmed on earlier files take precedence
+    const learned = this.learnedClassifications.get(learnedKey(accountCode, accountName));
+    if (learned) {
+      const result = {
+        classification: {
+          ...withSingleSignal(learned.classification, createSignal('learned', LEARNED_REASONING, 1, [accountName])),
+          manual: undefined,
+          learned: true
+        },
+        alternatives: []
+      };
+      this.rememberEntry(accountCode, accountName, result.classification);
+      this.classificationCache.set(cacheKey, result);
+      return result;
+    }
+
+    // Then an exact match with the chart's account codes, also trying the
+    // natural account segment of codes such as "01-1500-200"
+    const chartMatch = [accountCode, naturalAccount(this.codeRuleSet, accountCode)]
+      .find(code => this.classificationMap[code]);
+    if (chartMatch) {
+      const chartClassification = this.classificationMap[chartMatch];
+      const result = {
+        classification: withSingleSignal(
+          chartClassification,
+          createSignal('exact-code', chartClassification.reasoning, chartClassification.confidence, [chartMatch])
+        ),
         alternatives: []
       };
+      this.rememberEntry(accountCode, accountName, result.classification);
+      this.classificationCache.set(cacheKey, result);
+      return result;
     }
 
-    const alternatives: AccountClassification[] = [];
-    let bestMatch: AccountClassification | null = null;
-    let bestConfidence = 0;
+    // Then an account in the chart with exactly the same name
+    const chartCode = this.chartNames.get(accountName.trim().toLowerCase());
+    if (chartCode) {
+      const result = {
+        classification: withSingleSignal(
+          this.classificationMap[chartCode],
+          createSignal(
+            'chart-name',
+            `Account name matches ${chartCode} in chart of accounts "${this.chartName}"`,
+            1,
+            [accountName.trim(), chartCode]
+          )
+        ),
+        alternatives: []
+      };
+      this.rememberEntry(accountCode, accountName, result.classification);
+      this.classificationCache.set(cacheKey, result);
+      return result;
+    }
+
+    const candidates: EvidenceCandidate[] = [];
 
-    // Try fuzzy matching for account code
+    // Fuzzy match against the chart's codes, scaled by how similar the codes are; it only backs up other signals
     const similarCode = this.findSimilarAccountCode(accountCode);
-    if (similarCode && classificationMap[similarCode]) {
-      const confidence = 0.7; // Lower confidence for fuzzy matches
-      alternatives.push({
-        ...classificationMap[similarCode],
-        confidence,
-        reasoning: `Similar to account code ${similarCode}`
-      });
-      if (confidence > bestConfidence) {
-        bestConfidence = confidence;
-        bestMatch = alternatives[alternatives.length - 1];
-      }
+    if (similarCode && this.classificationMap[similarCode.code]) {
+      candidates.push(createCandidate(
+        this.classificationMap[similarCode.code],
+        createSignal('fuzzy-code', `Similar to account code ${similarCode.code}`, similarCode.rating, [similarCode.code])
+      ));
     }
 
-    // Try to find matches based on account code patterns
-    Object.entries(classificationMap).forEach(([code, classification]) => {
-      if (accountCode.startsWith(code.substring(0, 2))) {
-        const confidence = 0.8;
-        if (confidence > bestConfidence) {
-          bestConfidence = confidence;
-          bestMatch = {
-            ...classification,
-            confidence,
-            reasoning: `Account code prefix matches standard classification ${code}`
-          };
-        }
-        alternatives.push({
-          ...classification,
-          confidence,
-          reasoning: `Account code prefix matches standard classification ${code}`
-        });
-      }
-    });
+    // Numbering scheme rules; the most specific matching range or pattern wins
+    const ruleMatch = evaluateCodeRules(this.codeRuleSet, accountCode);
+    if (ruleMatch) {
+      candidates.push({ classification: ruleMatch.classification, signal: ruleMatch.signal });
+    }
 
-    // Check for similar entries in already processed data
-    const similarEntries = this.findSimilarEntries(accountName);
-    if (similarEntries.length > 0) {
-      const mostCommonClassification = similarEntries[0].classification;
-      alternatives.push({
-        ...mostCommonClassification,
-        confidence: 0.7,
-        reasoning: `Similar to previously classified entry: ${similarEntries[0].accountName}`
-      });
+    // The most similar account name classified earlier in the run
+    const similar = this.nameIndex.search(accountName);
+    if (similar) {
+      candidates.push(createCandidate(
+        similar.value.classification,
+        createSignal(
+          'similar-entry',
+          `Similar to previously classified entry: ${similar.name} (name score ${similar.score})`,
+          similar.score,
+          similar.sharedTokens
+        )
+      ));
     }
 
     // Try keyword-based classification
-    const keywordResults = this.classifyByKeywords(accountName);
-    keywordResults.forEach(result => {
-      if (result.classification.confidence > bestConfidence) {
-        bestConfidence = result.classification.confidence;
-        bestMatch = result.classification;
-      }
-      alternatives.push(result.classification);
-    });
+    candidates.push(...this.classifyByKeywords(accountName));
+
+    const combined = combineEvidence(candidates);
+    const alternatives = combined.alternatives;
+    let bestMatch = combined.classification;
 
     // If still no match found, return a low-confidence classification
     if (!bestMatch) {
+      const fallback = createSignal('fallback', `Basic category determined from account name: ${accountName}`, 1);
       bestMatch = {
-        primary: this.determineBasicCategory(accountName),
-        secondary: "Needs Review",
-        tertiary: "Unclassified",
-        confidence: 0.3,
-        reasoning: `Basic category determined from account name: ${accountName}`
+        ...withSingleSignal({
+          primary: this.determineBasicCategory(accountName),
+          secondary: UNRESOLVED_SECONDARY,
+          tertiary: "Unclassified"
+        }, fallback),
+        evidence: [{ ...fallback, selected: true }, ...candidates.map(candidate => candidate.signal)]
       };
 
       // Add to unmatched entries for review
@@ -291,39 +346,49 @@ export class FinancialProcessor {
       });
     }
 
-    // Store the entry for future reference
-    this.processedEntries.set(accountCode, {
-      accountCode,
-      accountName,
-      debit: 0,
-      credit: 0,
-      classification: bestMatch,
-      sourceTable: '',
-      rowIndex: 0
-    });
+    // Store the entry for future reference; fallbacks would only spread "Needs Review"
+    if (combined.classification) this.rememberEntry(accountCode, accountName, bestMatch);
 
-    return {
+    const result = {
       classification: bestMatch,
-      alternatives: alternatives
-        .filter(alt => alt !== bestMatch)
-        .sort((a, b) => b.confidence - a.confidence)
-        .slice(0, 3) // Return top 3 alternatives
+      alternatives: alternatives.slice(0, 3) // Return top 3 alternatives
     };
+    this.classificationCache.set(cacheKey, result);
+    return result;
+  }
+
+  /**
+   * Resolves every entry's classification to an element of the framework's
+   * taxonomy, logging the accounts that have no line item.
+   */
+  private static attachTaxonomyElements(entries: FinancialEntry[], framework: ReportingFramework): FinancialEntry[] {
+    const elementIds = new Map<string, string | undefined>();
+    const result = entries.map(entry => {
+      const { primary, secondary, tertiary, confidence } = entry.classification;
+      const key = `${primary}|${secondary}|${tertiary}|${confidence < REVIEW_CONFIDENCE_THRESHOLD}`;
+      if (!elementIds.has(key)) elementIds.set(key, withTaxonomyElement(entry.classification, framework).elementId);
+      return { ...entry, classification: { ...entry.classification, elementId: elementIds.get(key) } };
+    });
+
+    const unresolved = result.filter(entry => !entry.classification.elementId);
+    this.log('INFO', `Mapped classifications to ${FRAMEWORK_DETAILS[framework].label} elements`, {
+      framework,
+      unresolved: unresolved.length
+    });
+    if (unresolved.length > 0) {
+      this.log('WARNING', `${unresolved.length} entries have no ${FRAMEWORK_DETAILS[framework].label} element`, {
+        accounts: unresolved.slice(0, 10).map(entry => entry.accountName)
+      });
+    }
+    return result;
   }
 
   private static determineBasicCategory(accountName: string): string {
-    const nameLower = accountName.toLowerCase();
+    const nameLower = foldAccents(accountName);
     
     // Check against hierarchical structure
-    for (const [category, patterns] of Object.entries(FINANCIAL_KEYWORDS.HIERARCHICAL)) {
-      for (const [, subPatterns] of Object.entries(patterns)) {
-        for (const keywords of Object.values(subPatterns)) {
-          if (Array.isArray(keywords) && keywords.some(keyword => nameLower.includes(keyword.toLowerCase()))) {
-            return category;
-          }
-        }
-      }
-    }
+    const node = this.keywordNodes.find(({ foldedKeywords }) => foldedKeywords.some(keyword => nameLower.includes(keyword)));
+    if (node) return node.primary;
 
     // Fallback basic checks
     if (nameLower.includes('asset') || nameLower.includes('cash') || nameLower.includes('receivable')) {
@@ -345,171 +410,408 @@ export class FinancialProcessor {
     return 'Uncategorized';
   }
 
-  private static detectTables(workbook: WorkSheet, labels: FinancialLabel[]): DetectedTable[] {
-    const tables: DetectedTable[] = [];
-    const range = utils.decode_range(workbook['!ref'] || 'A1');
-    
-    // Use JigsawStack labels to enhance table detection
-    const labelTypes = new Set(labels.map(l => l.type));
-    const hasRequiredLabels = labelTypes.has('account_description') && 
-                            labelTypes.has('debit') && 
-                            labelTypes.has('credit');
+  private static isBlank(value: unknown): boolean {
+    return value === undefined || value === null || (typeof value === 'string' && value.trim() === '');
+  }
+
+  private static cellValue(worksheet: WorkSheet, row: number, col: number): unknown {
+    return worksheet[utils.encode_cell({ r: row, c: col })]?.v;
+  }
+
+  /**
+   * Returns the top-left cell of the merged range covering a cell, if any. The
+   * lookup is built once per worksheet from its !merges list.
+   */
+  private static mergeOrigin(worksheet: WorkSheet, row: number, col: number): { r: number; c: number } | undefined {
+    let origins = this.mergeOrigins.get(worksheet);
+    if (!origins) {
+      origins = new Map();
+      for (const merge of worksheet['!merges'] ?? []) {
+        for (let r = merge.s.r; r <= merge.e.r; r++) {
+          for (let c = merge.s.c; c <= merge.e.c; c++) {
+            if (r !== merge.s.r || c !== merge.s.c) origins.set(utils.encode_cell({ r, c }), merge.s);
+          }
+        }
+      }
+      this.mergeOrigins.set(worksheet, origins);
+    }
+    return origins.get(utils.encode_cell({ r: row, c: col }));
+  }
+
+  /** Reads a cell, taking the value of the merged range it belongs to */
+  private static mergedCellValue(worksheet: WorkSheet, row: number, col: number): unknown {
+    const origin = this.mergeOrigin(worksheet, row, col);
+    return origin ? this.cellValue(worksheet, origin.r, origin.c) : this.cellValue(worksheet, row, col);
+  }
 
-    if (hasRequiredLabels) {
-      this.log('INFO', 'Found required column labels via JigsawStack');
+  /**
+   * Reads the distinct non-blank cells of a row within a column block, counting
+   * a horizontally merged range once.
+   */
+  private static distinctRowCells(worksheet: WorkSheet, row: number, startCol: number, endCol: number): unknown[] {
+    const values: unknown[] = [];
+    for (let col = startCol; col <= endCol; col++) {
+      const origin = this.mergeOrigin(worksheet, row, col);
+      if (origin && origin.r === row && origin.c >= startCol) continue;
+      const value = this.mergedCellValue(worksheet, row, col);
+      if (!this.isBlank(value)) values.push(value);
     }
-    
-    // Scan through all rows to find potential table headers
+    return values;
+  }
+
+  private static isTextCell(value: unknown): value is string {
+    return typeof value === 'string' && parseAmount(value) === null;
+  }
+
+  /**
+   * Title and metadata rows, such as the company name or the reporting period,
+   * hold a single value or a label and value pair like "Period: | Dec 2024".
+   * Ledger headers starting with "Date" have more cells and are not matched.
+   */
+  private static isTitleRow(worksheet: WorkSheet, row: number, startCol: number, endCol: number): boolean {
+    const values = this.distinctRowCells(worksheet, row, startCol, endCol);
+    if (values.length === 0 || values.length > 2) return false;
+    if (values.length === 1) return true;
+    return typeof values[0] === 'string' && (METADATA_ROW_PATTERN.test(values[0].trim()) || values[0].trim().endsWith(':'));
+  }
+
+  /**
+   * Sub-header rows below a header row, e.g. "Debit | Credit" beneath a merged
+   * "Closing Balance" caption. They hold only text and name at least one column.
+   */
+  private static isSubHeaderRow(worksheet: WorkSheet, row: number, startCol: number, endCol: number): boolean {
+    const values = this.distinctRowCells(worksheet, row, startCol, endCol);
+    if (values.length < 2 || !values.every(value => this.isTextCell(value))) return false;
+    if (this.isTitleRow(worksheet, row, startCol, endCol)) return false;
+    return values.some(value => classifyHeader(value as string, this.columnSynonyms) !== null) ||
+      this.countFinancialKeywords(values.map(value => (value as string).toLowerCase())) > 0;
+  }
+
+  /**
+   * Caption rows above a header row group some of its columns under a merged
+   * cell. A merge across the whole block is a title rather than a caption.
+   */
+  private static isCaptionRow(worksheet: WorkSheet, row: number, startCol: number, endCol: number): boolean {
+    const values = this.distinctRowCells(worksheet, row, startCol, endCol);
+    if (values.length === 0 || !values.every(value => this.isTextCell(value))) return false;
+    if (METADATA_ROW_PATTERN.test((values[0] as string).trim())) return false;
+
+    return (worksheet['!merges'] ?? []).some(merge =>
+      merge.s.r <= row && merge.e.r >= row &&
+      merge.s.c >= startCol && merge.e.c <= endCol &&
+      merge.e.c > merge.s.c &&
+      merge.e.c - merge.s.c < endCol - startCol
+    );
+  }
+
+  /**
+   * Combines stacked header rows column by column, e.g. "closing balance" above
+   * "debit" becomes "closing balance debit". Vertically merged cells repeat in
+   * each row and are only used once.
+   */
+  private static combineHeaderRows(worksheet: WorkSheet, headerRows: number[], startCol: number, endCol: number): string[] {
+    const headers: string[] = [];
+    for (let col = startCol; col <= endCol; col++) {
+      const parts: string[] = [];
+      headerRows.forEach(row => {
+        const value = this.mergedCellValue(worksheet, row, col);
+        const text = typeof value === 'string' ? value.toLowerCase().replace(/\s+/g, ' ').trim() : '';
+        if (text && parts[parts.length - 1] !== text) parts.push(text);
+      });
+      headers.push(parts.join(' '));
+    }
+    return headers;
+  }
+
+  /**
+   * Splits a row into column blocks separated by columns that are empty in both
+   * the row and the one beneath it, so side-by-side tables are kept apart.
+   */
+  private static findColumnBlocks(worksheet: WorkSheet, row: number, range: Range): { startCol: number; endCol: number }[] {
+    const blocks: { startCol: number; endCol: number }[] = [];
+    let startCol = -1;
+
+    for (let col = range.s.c; col <= range.e.c + 1; col++) {
+      const occupied = col <= range.e.c && (
+        !this.isBlank(this.mergedCellValue(worksheet, row, col)) ||
+        !this.isBlank(this.mergedCellValue(worksheet, row + 1, col))
+      );
+      if (occupied && startCol < 0) {
+        startCol = col;
+      } else if (!occupied && startCol >= 0) {
+        blocks.push({ startCol, endCol: col - 1 });
+        startCol = -1;
+      }
+    }
+
+    return blocks;
+  }
+
+  /**
+   * Finds header rows with at least two text cells and the data rows below them,
+   * ending each table at the first row that is blank across its columns. Caption
+   * rows above and sub-header rows below are combined into the headers, and title
+   * rows are skipped. Accepted regions are claimed so their data rows are not
+   * mistaken for further headers.
+   */
+  private static scanTableRegions(worksheet: WorkSheet, accept: (headers: string[]) => boolean): TableRegion[] {
+    const regions: TableRegion[] = [];
+    const range = utils.decode_range(worksheet['!ref'] || 'A1');
+
+    const isClaimed = (row: number, startCol: number, endCol: number) => regions.some(region =>
+      row >= (region.titleRows[0] ?? region.headerRow) && row <= region.lastRow &&
+      startCol <= region.endCol && endCol >= region.startCol
+    );
+
     for (let row = range.s.r; row <= range.e.r; row++) {
-      const headerCells: string[] = [];
-      let hasHeaders = false;
-      let headerCount = 0;
-      
-      // Read potential header row
-      for (let col = range.s.c; col <= range.e.c; col++) {
-        const cellAddress = utils.encode_cell({ r: row, c: col });
-        const cell = workbook[cellAddress];
-        
-        if (cell && typeof cell.v === 'string') {
-          headerCells.push(cell.v.toLowerCase());
-          hasHeaders = true;
-          headerCount++;
+      this.findColumnBlocks(worksheet, row, range).forEach(({ startCol, endCol }) => {
+        if (isClaimed(row, startCol, endCol)) return;
+
+        const textCells = this.distinctRowCells(worksheet, row, startCol, endCol).filter(value => this.isTextCell(value));
+        if (textCells.length < 2 || this.isTitleRow(worksheet, row, startCol, endCol)) return;
+
+        const headerRows = [row];
+        for (
+          let above = row - 1;
+          above >= range.s.r && headerRows.length < this.MAX_HEADER_ROWS &&
+            !isClaimed(above, startCol, endCol) && this.isCaptionRow(worksheet, above, startCol, endCol);
+          above--
+        ) {
+          headerRows.unshift(above);
         }
-      }
+        for (
+          let below = row + 1;
+          below <= range.e.r && headerRows.length < this.MAX_HEADER_ROWS &&
+            this.isSubHeaderRow(worksheet, below, startCol, endCol);
+          below++
+        ) {
+          headerRows.push(below);
+        }
+
+        const headers = this.combineHeaderRows(worksheet, headerRows, startCol, endCol);
 
-      // Check if we have enough headers and data rows
-      if (hasHeaders && headerCount >= 2) {
-        // Count data rows
+        // Check the headers before scanning down so data rows in large ledgers are not rescanned
+        if (!accept(headers)) return;
+
+        // Count data rows until the table ends
+        const lastHeaderRow = headerRows[headerRows.length - 1];
         let dataRowCount = 0;
-        for (let dataRow = row + 1; dataRow <= range.e.r; dataRow++) {
+        for (let dataRow = lastHeaderRow + 1; dataRow <= range.e.r; dataRow++) {
           let hasData = false;
-          for (let col = range.s.c; col <= range.e.c; col++) {
-            const cellAddress = utils.encode_cell({ r: dataRow, c: col });
-            if (workbook[cellAddress]) {
+          for (let col = startCol; col <= endCol; col++) {
+            if (!this.isBlank(this.cellValue(worksheet, dataRow, col))) {
               hasData = true;
               break;
             }
           }
-          if (hasData) dataRowCount++;
+          if (!hasData) break;
+          dataRowCount++;
         }
 
-        if (dataRowCount >= this.MIN_TABLE_ROWS) {
-          // Check for financial keywords in headers
-          const financialKeywordCount = this.countFinancialKeywords(headerCells);
-          
-          // Boost confidence if JigsawStack found the required labels
-          const confidenceBoost = hasRequiredLabels ? 0.2 : 0;
-          
-          if (financialKeywordCount >= this.MIN_FINANCIAL_KEYWORDS || hasRequiredLabels) {
-            const tableType = this.determineTableType(headerCells);
-            const tableName = this.generateTableName(tableType, tables.length);
-            const tableRange = `${utils.encode_cell({ r: row, c: range.s.c })}:${utils.encode_cell({ r: row + dataRowCount, c: range.e.c })}`;
-            
-            tables.push({
-              name: tableName,
-              sheetName: workbook['!ref'] ? workbook['!ref'].split('!')[0] : 'Sheet1',
-              range: tableRange,
-              headers: headerCells,
-              rowCount: dataRowCount,
-              confidence: Math.min(1, this.calculateTableConfidence(headerCells, tableType) + confidenceBoost),
-              type: tableType
-            });
+        if (dataRowCount < this.MIN_TABLE_ROWS) return;
 
-            this.log('INFO', `Detected table: ${tableName}`, {
-              type: tableType,
-              headers: headerCells,
-              range: tableRange,
-              rowCount: dataRowCount,
-              jigsawLabelsFound: hasRequiredLabels
-            });
-          }
+        // Titles may be separated from the table by blank rows
+        const titleRows: number[] = [];
+        for (let above = headerRows[0] - 1; above >= range.s.r && !isClaimed(above, startCol, endCol); above--) {
+          if (this.distinctRowCells(worksheet, above, startCol, endCol).length === 0) continue;
+          if (!this.isTitleRow(worksheet, above, startCol, endCol)) break;
+          titleRows.unshift(above);
         }
-      }
+
+        regions.push({
+          headerRow: headerRows[0],
+          headerRows,
+          titleRows,
+          startCol,
+          endCol,
+          lastRow: lastHeaderRow + dataRowCount,
+          headers
+        });
+      });
     }
 
-    if (tables.length === 0) {
-      // If no tables found, try a more lenient approach
-      this.log('WARNING', 'No tables detected with strict criteria, attempting lenient detection');
-      return this.detectTablesLenient(workbook, labels);
+    return regions;
+  }
+
+  private static encodeRegion(region: TableRegion): string {
+    return `${utils.encode_cell({ r: region.headerRow, c: region.startCol })}:${utils.encode_cell({ r: region.lastRow, c: region.endCol })}`;
+  }
+
+  private static logTitleRows(region: TableRegion, sheetName: string) {
+    if (region.titleRows.length === 0) return;
+    this.log('INFO', `Skipping title rows ${region.titleRows.map(row => row + 1).join(', ')}`, { sheetName });
+  }
+
+  private static detectTables(
+    worksheet: WorkSheet,
+    sheetName: string,
+    labels: FinancialLabel[],
+    tableOffset: number
+  ): DetectedTable[] {
+    // Use header labels to enhance table detection
+    const labelsFound = hasRequiredLabels(this.labelsForSheet(labels, sheetName));
+
+    if (labelsFound) {
+      this.log('INFO', 'Found required column labels', { sheetName });
     }
 
-    return tables;
+    // Boost confidence if the label provider found the required labels
+    const confidenceBoost = labelsFound ? 0.2 : 0;
+
+    // Debit and credit headers in the active keyword packs also mark a table, e.g. "Soll" and "Haben"
+    const regions = this.scanTableRegions(worksheet, headers =>
+      this.countFinancialKeywords(headers) >= this.MIN_FINANCIAL_KEYWORDS || labelsFound ||
+      (this.hasColumn(headers, 'debit') && this.hasColumn(headers, 'credit'))
+    );
+
+    return regions.map((region, index) => {
+      const headerCells = region.headers;
+      const tableType = this.determineTableType(headerCells.filter(Boolean));
+      const tableName = this.generateTableName(tableType, tableOffset + index);
+      const tableRange = this.encodeRegion(region);
+      const dataRowCount = region.lastRow - region.headerRows[region.headerRows.length - 1];
+
+      this.logTitleRows(region, sheetName);
+      this.log('INFO', `Detected table: ${tableName}`, {
+        sheetName,
+        type: tableType,
+        headers: headerCells,
+        headerRows: region.headerRows,
+        range: tableRange,
+        rowCount: dataRowCount,
+        labelsFound
+      });
+
+      return {
+        name: tableName,
+        sheetName,
+        range: tableRange,
+        headers: headerCells,
+        headerRows: region.headerRows,
+        rowCount: dataRowCount,
+        confidence: Math.min(1, this.calculateTableConfidence(headerCells, tableType) + confidenceBoost),
+        type: tableType,
+        keywordLocale: this.keywordLocale
+      };
+    });
   }
 
-  private static detectTablesLenient(workbook: WorkSheet, labels: FinancialLabel[]): DetectedTable[] {
-    const range = utils.decode_range(workbook['!ref'] || 'A1');
-    const allData = utils.sheet_to_json(workbook, { header: 1 });
-    
-    // Use JigsawStack labels to help with lenient detection
-    const labelTypes = new Set(labels.map(l => l.type));
-    const hasRequiredLabels = labelTypes.has('account_description') && 
-                            labelTypes.has('debit') && 
-                            labelTypes.has('credit');
+  private static detectTablesLenient(worksheet: WorkSheet, sheetName: string, labels: FinancialLabel[]): DetectedTable[] {
+    // Use header labels to help with lenient detection
+    const labelsFound = hasRequiredLabels(this.labelsForSheet(labels, sheetName));
     
-    // Look for any row with multiple cells that could be headers
-    for (let row = 0; row < allData.length; row++) {
-      const potentialHeaders = allData[row].filter(cell => cell && typeof cell === 'string');
+    // Accept any block with multiple cells that could be headers
+    const regions = this.scanTableRegions(worksheet, () => true);
+
+    return regions.map(region => {
+      const tableName = `${sheetName} table_${utils.encode_cell({ r: region.headerRow, c: region.startCol })}`;
+      const dataRowCount = region.lastRow - region.headerRows[region.headerRows.length - 1];
+      const table: DetectedTable = {
+        name: tableName,
+        sheetName,
+        range: this.encodeRegion(region),
+        headers: region.headers,
+        headerRows: region.headerRows,
+        rowCount: dataRowCount,
+        confidence: labelsFound ? 0.7 : 0.5, // Higher confidence if the label provider found labels
+        type: 'UNKNOWN',
+        keywordLocale: this.keywordLocale
+      };
       
-      if (potentialHeaders.length >= 2 || hasRequiredLabels) {
-        const headerCells = potentialHeaders.map(h => String(h).toLowerCase());
-        const tableType = 'UNKNOWN';
-        const tableName = `table_${row + 1}`;
-        const dataRowCount = allData.length - row - 1;
-        
-        if (dataRowCount >= this.MIN_TABLE_ROWS) {
-          const table: DetectedTable = {
-            name: tableName,
-            sheetName: workbook['!ref'] ? workbook['!ref'].split('!')[0] : 'Sheet1',
-            range: `${utils.encode_cell({ r: row, c: range.s.c })}:${utils.encode_cell({ r: range.e.r, c: range.e.c })}`,
-            headers: headerCells,
-            rowCount: dataRowCount,
-            confidence: hasRequiredLabels ? 0.7 : 0.5, // Higher confidence if JigsawStack found labels
-            type: tableType
-          };
-          
-          this.log('INFO', `Detected table with lenient criteria: ${tableName}`, {
-            headers: headerCells,
-            rowCount: dataRowCount,
-            jigsawLabelsFound: hasRequiredLabels
-          });
-          
-          return [table];
-        }
-      }
+      this.logTitleRows(region, sheetName);
+      this.log('INFO', `Detected table with lenient criteria: ${tableName}`, {
+        sheetName,
+        headers: region.headers,
+        headerRows: region.headerRows,
+        range: table.range,
+        rowCount: dataRowCount,
+        labelsFound
+      });
+      
+      return table;
+    });
+  }
+
+  private static labelsForSheet(labels: FinancialLabel[], sheetName: string): FinancialLabel[] {
+    return labels.filter(label => !label.sheetName || label.sheetName === sheetName);
+  }
+
+  private static statementKeywordsFor(locale: KeywordLocale): Record<StatementType, string[]> {
+    return {
+      TRIAL_BALANCE: statementKeywordsFor(locale, 'TRIAL_BALANCE'),
+      BALANCE_SHEET: statementKeywordsFor(locale, 'BALANCE_SHEET'),
+      INCOME_STATEMENT: statementKeywordsFor(locale, 'INCOME_STATEMENT')
+    };
+  }
+
+  /**
+   * Chooses the keyword pack for a file. With "auto", the top rows of every
+   * sheet are sampled and matched against each pack's terms.
+   */
+  private static useKeywordLocale(workbook: WorkBook, setting: KeywordLocaleSetting) {
+    let locale: KeywordLocale;
+    if (setting === 'auto') {
+      const texts: string[] = [];
+      workbook.SheetNames.forEach(sheetName => {
+        const worksheet = workbook.Sheets[sheetName];
+        if (!worksheet['!ref']) return;
+        const range = utils.decode_range(worksheet['!ref']);
+        range.e.r = Math.min(range.e.r, range.s.r + this.LOCALE_SAMPLE_ROWS - 1);
+        const rows = utils.sheet_to_json<RawRow>(worksheet, { header: 1, range, blankrows: false, defval: null });
+        rows.forEach(row => row.forEach(value => {
+          if (typeof value === 'string' && value.trim()) texts.push(value);
+        }));
+      });
+      locale = detectKeywordLocale(texts);
+    } else {
+      locale = setting;
     }
-    
-    return [];
+
+    this.keywordLocale = locale;
+    this.keywordNodes = keywordNodesFor(locale);
+    this.columnSynonyms = columnSynonymsFor(locale);
+    this.statementKeywords = this.statementKeywordsFor(locale);
+    this.log('INFO', `Using ${KEYWORD_PACKS[locale].label} keywords`, {
+      locale,
+      source: setting === 'auto' ? 'detected' : 'selected'
+    });
+  }
+
+  private static hasColumn(headers: string[], field: ColumnField): boolean {
+    const synonyms = this.columnSynonyms[field].map(foldAccents);
+    return headers.some(header => synonyms.includes(foldAccents(header).trim()));
   }
 
   private static countFinancialKeywords(headers: string[]): number {
     const allKeywords = [
-      ...FINANCIAL_KEYWORDS.TRIAL_BALANCE,
-      ...FINANCIAL_KEYWORDS.BALANCE_SHEET,
-      ...FINANCIAL_KEYWORDS.INCOME_STATEMENT
+      ...this.statementKeywords.TRIAL_BALANCE,
+      ...this.statementKeywords.BALANCE_SHEET,
+      ...this.statementKeywords.INCOME_STATEMENT
     ];
     
     return headers.reduce((count, header) => {
-      return count + (allKeywords.some(keyword => header.includes(keyword)) ? 1 : 0);
+      const folded = foldAccents(header);
+      return count + (allKeywords.some(keyword => folded.includes(keyword)) ? 1 : 0);
     }, 0);
   }
 
   private static determineTableType(headers: string[]): DetectedTable['type'] {
-    const headerStr = headers.join(' ');
+    const headerStr = foldAccents(headers.join(' '));
     
     // Check for Trial Balance indicators
-    if (FINANCIAL_KEYWORDS.TRIAL_BALANCE.some(keyword => headerStr.includes(keyword)) ||
-        (headers.includes('debit') && headers.includes('credit'))) {
+    if (this.statementKeywords.TRIAL_BALANCE.some(keyword => headerStr.includes(keyword)) ||
+        (this.hasColumn(headers, 'debit') && this.hasColumn(headers, 'credit'))) {
       return 'TRIAL_BALANCE';
     }
     
     // Check for Balance Sheet indicators
-    if (FINANCIAL_KEYWORDS.BALANCE_SHEET.some(keyword => headerStr.includes(keyword)) ||
+    if (this.statementKeywords.BALANCE_SHEET.some(keyword => headerStr.includes(keyword)) ||
         (headers.includes('assets') && headers.includes('liabilities'))) {
       return 'BALANCE_SHEET';
     }
     
     // Check for Income Statement indicators
-    if (FINANCIAL_KEYWORDS.INCOME_STATEMENT.some(keyword => headerStr.includes(keyword)) ||
+    if (this.statementKeywords.INCOME_STATEMENT.some(keyword => headerStr.includes(keyword)) ||
         (headers.includes('revenue') && headers.includes('expenses'))) {
       return 'INCOME_STATEMENT';
     }
@@ -523,53 +825,169 @@ export class FinancialProcessor {
 
   private static calculateTableConfidence(headers: string[], type: DetectedTable['type']): number {
     let confidence = 0;
-    const relevantKeywords = FINANCIAL_KEYWORDS[type] || [];
+    const relevantKeywords: readonly string[] = type === 'UNKNOWN' ? [] : this.statementKeywords[type];
     
     // Check for essential financial columns
-    if (headers.includes('debit') && headers.includes('credit')) confidence += 0.4;
-    if (headers.includes('account') || headers.includes('description')) confidence += 0.3;
+    if (this.hasColumn(headers, 'debit') && this.hasColumn(headers, 'credit')) confidence += 0.4;
+    if (this.hasColumn(headers, 'accountName')) confidence += 0.3;
     
     // Check for keyword matches
+    const folded = headers.map(foldAccents);
     const keywordMatches = relevantKeywords.filter(keyword => 
-      headers.some(header => header.includes(keyword))
+      folded.some(header => header.includes(keyword))
     ).length;
     
-    confidence += (keywordMatches / relevantKeywords.length) * 0.3;
+    if (relevantKeywords.length > 0) {
+      confidence += (keywordMatches / relevantKeywords.length) * 0.3;
+    }
     
     return Math.min(1, confidence);
   }
 
-  private static isEmptyRow(row: any): boolean {
-    return Object.values(row).every(value => 
-      value === undefined || value === null || value === ''
-    );
+  private static isEmptyRow(row: RawRow): boolean {
+    return row.every(value => this.isBlank(value));
   }
 
-  private static isHeaderRow(row: any): boolean {
+  private static isHeaderRow(row: MappedRow): boolean {
     const headerKeywords = [
       'assets', 'liabilities', 'equity', 'revenue', 'expenses',
       'current', 'non-current', 'operating', 'financing'
     ];
-    
-    // Convert row values to string and check for header keywords
-    const rowValues = Object.values(row).map(val => String(val).toLowerCase());
-    return headerKeywords.some(keyword => 
-      rowValues.some(value => value.includes(keyword))
-    );
+
+    // Section captions such as "Current Assets" carry no amounts
+    const hasAmounts = [row.debit, row.credit, row.balance].some(value => !this.isBlank(value));
+    if (hasAmounts) return false;
+
+    const label = `${row.accountCode} ${row.accountName}`.toLowerCase();
+    return headerKeywords.some(keyword => label.includes(keyword));
   }
 
-  private static isTotalRow(row: any): boolean {
-    const accountName = String(row.AccountName || '').toLowerCase();
-    return accountName.includes('total') || accountName.startsWith('total');
+  // Some files put "Total" in the code column and leave the name blank
+  private static isTotalRow(row: MappedRow): boolean {
+    return TOTAL_ROW_PATTERN.test(row.accountName) || TOTAL_ROW_PATTERN.test(row.accountCode);
   }
 
-  private static extractTotalSummary(row: any): TotalSummary | null {
-    if (!this.isTotalRow(row)) return null;
+  private static resolveColumnIndexes(headers: string[], mapping: ColumnMapping): Partial<Record<ColumnField, number>> {
+    const columns: Partial<Record<ColumnField, number>> = {};
+    (Object.entries(mapping) as [ColumnField, string][]).forEach(([field, header]) => {
+      const index = headers.findIndex(candidate => normalizeHeader(candidate) === header);
+      if (index >= 0) columns[field] = index;
+    });
+    return columns;
+  }
+
+  private static mapRow(
+    row: RawRow,
+    columns: Partial<Record<ColumnField, number>>,
+    rowIndex: number,
+    startCol: number
+  ): MappedRow {
+    const value = (field: ColumnField) => {
+      const index = columns[field];
+      return index === undefined ? undefined : row[index] ?? null;
+    };
+    const text = (field: ColumnField) => {
+      const cell = value(field);
+      return cell === undefined || cell === null ? '' : String(cell).trim();
+    };
+
+    const cells: MappedRow['cells'] = {};
+    (Object.entries(columns) as [ColumnField, number][]).forEach(([field, index]) => {
+      cells[field] = utils.encode_cell({ r: rowIndex, c: startCol + index });
+    });
+
+    return {
+      accountCode: text('accountCode'),
+      accountName: text('accountName'),
+      debit: value('debit'),
+      credit: value('credit'),
+      balance: value('balance'),
+      cells
+    };
+  }
+
+  private static parseCell(row: MappedRow, field: 'debit' | 'credit' | 'balance') {
+    const parsed = parseAmount(row[field], this.decimalSeparator);
+    if (!parsed) {
+      this.log('WARNING', `Could not parse amount in cell ${row.cells[field]}`, {
+        cell: row.cells[field],
+        column: field,
+        value: row[field],
+        accountName: row.accountName
+      });
+    }
+    return parsed;
+  }
+
+  /**
+   * Splits a row's amounts into debit and credit. Dr/Cr markers and negative
+   * values move an amount to the opposite side; a net balance column is used
+   * when the row has no debit or credit columns.
+   */
+  private static splitAmounts(row: MappedRow): { debit: Decimal; credit: Decimal } {
+    let debit = new Decimal(0);
+    let credit = new Decimal(0);
+
+    const post = (field: 'debit' | 'credit' | 'balance', defaultSide: 'DEBIT' | 'CREDIT') => {
+      const parsed = this.parseCell(row, field);
+      if (!parsed || parsed.value.isZero()) return;
+
+      let side = parsed.side ?? defaultSide;
+      if (!parsed.side && parsed.value.isNegative()) {
+        side = defaultSide === 'DEBIT' ? 'CREDIT' : 'DEBIT';
+      }
+      if (side === 'DEBIT') debit = debit.plus(parsed.value.abs());
+      else credit = credit.plus(parsed.value.abs());
+    };
+
+    if (row.debit === undefined && row.credit === undefined && row.balance !== undefined) {
+      // Net balance column: positive balances are debits, negative ones credits
+      post('balance', 'DEBIT');
+    } else {
+      if (row.debit !== undefined) post('debit', 'DEBIT');
+      if (row.credit !== undefined) post('credit', 'CREDIT');
+    }
+
+    return { debit, credit };
+  }
+
+  private static accountKey(accountCode: string, accountName: string): string {
+    return `${accountCode}|${accountName.toLowerCase()}`;
+  }
+
+  /**
+   * Collapses ledger lines into one entry per account, keyed by account code or
+   * by name when the ledger has no codes. Amounts are netted onto one side and
+   * the entry keeps the sheet and row of the first line seen.
+   */
+  private static aggregateEntries(entries: FinancialEntry[]): FinancialEntry[] {
+    const accounts = new Map<string, { entry: FinancialEntry; net: Decimal; rowCount: number }>();
+
+    entries.forEach(entry => {
+      const key = entry.accountCode || entry.accountName.toLowerCase().replace(/\s+/g, ' ').trim();
+      const account = accounts.get(key);
+      const amount = new Decimal(entry.debit).minus(entry.credit);
+      if (account) {
+        account.net = account.net.plus(amount);
+        account.rowCount++;
+      } else {
+        accounts.set(key, { entry, net: amount, rowCount: 1 });
+      }
+    });
+
+    const aggregated = Array.from(accounts.values()).map(({ entry, net, rowCount }) => ({
+      ...entry,
+      debit: net.isPositive() ? net.toNumber() : 0,
+      credit: net.isNegative() ? net.abs().toNumber() : 0,
+      rowCount
+    }));
+
+    this.log('INFO', `Aggregated ${entries.length.toLocaleString()} rows into ${aggregated.length.toLocaleString()} accounts`);
+    return aggregated;
+  }
+
+  private static extractTotalSummary(name: string, debit: Decimal, credit: Decimal): TotalSummary {
 
-    const name = row.AccountName || '';
-    const debit = new Decimal(row.Debit || 0);
-    const credit = new Decimal(row.Credit || 0);
-    
     // Determine category from the total name
     const nameLower = name.toLowerCase();
     let category = 'Other';
@@ -597,99 +1015,349 @@ export class FinancialProcessor {
     }
   }
 
-  static async processFile(file: File, jigsawLabels: FinancialLabel[]): Promise<TrialBalance> {
+  private static async readWorkbook(file: File, buffer: ArrayBuffer): Promise<InputWorkbook> {
+    const format = detectInputFormat(file);
+    if (!format) {
+      this.log('ERROR', 'Unsupported file format', { fileName: file.name, type: file.type });
+      throw new Error('Unsupported file format');
+    }
+
+    const input = readInputWorkbook(buffer, file.name, format);
+    this.log('INFO', `Read ${format.toUpperCase()} file`, {
+      sheets: input.workbook.SheetNames,
+      ...input.textDetails
+    });
+    return input;
+  }
+
+  /**
+   * Asks the label provider for header labels once per file. A failing remote
+   * provider falls back to the local header scan so processing can continue.
+   */
+  private static async extractLabels(
+    file: File,
+    buffer: ArrayBuffer,
+    input: InputWorkbook,
+    provider: LabelProvider
+  ): Promise<FinancialLabel[]> {
+    const cached = this.labelCache.get(file);
+    if (cached) return cached;
+
+    const labelInput = {
+      workbook: input.workbook,
+      buffer,
+      fileName: file.name,
+      mimeType: file.type || SUPPORTED_FORMATS[input.format].mimeTypes[0]
+    };
+
+    let labels: FinancialLabel[];
+    try {
+      labels = await provider.extractLabels(labelInput);
+      this.log('INFO', `Extracted ${labels.length} header labels`, { provider: provider.name });
+    } catch (error) {
+      if (provider === localLabelProvider) throw error;
+      this.log('WARNING', `Label provider "${provider.name}" failed, using local header scan`, {
+        error: error instanceof Error ? error.message : String(error)
+      });
+      labels = await localLabelProvider.extractLabels(labelInput);
+    }
+
+    this.labelCache.set(file, labels);
+    return labels;
+  }
+
+  private static async loadFile(file: File, provider: LabelProvider) {
+    const buffer = await file.arrayBuffer();
+    const input = await this.readWorkbook(file, buffer);
+    const labels = await this.extractLabels(file, buffer, input, provider);
+    return { ...input, labels };
+  }
+
+  private static detectWorkbookTables(workbook: WorkBook, labels: FinancialLabel[]): DetectedTable[] {
+    const tables: DetectedTable[] = [];
+
+    workbook.SheetNames.forEach(sheetName => {
+      const sheetTables = this.detectTables(workbook.Sheets[sheetName], sheetName, labels, tables.length);
+      if (sheetTables.length === 0) {
+        this.log('INFO', `No financial tables detected on sheet "${sheetName}"`);
+      }
+      tables.push(...sheetTables);
+    });
+
+    if (tables.length === 0) {
+      // If no tables found on any sheet, try a more lenient approach
+      this.log('WARNING', 'No tables detected with strict criteria, attempting lenient detection');
+      workbook.SheetNames.forEach(sheetName => {
+        tables.push(...this.detectTablesLenient(workbook.Sheets[sheetName], sheetName, labels));
+      });
+    }
+
+    return tables;
+  }
+
+  static async detectFileTables(
+    file: File,
+    options: Pick<ProcessingOptions, 'labelProvider' | 'onProgress' | 'keywordLocale'> = {}
+  ): Promise<DetectedTable[]> {
     this.processingLogs = [];
-    this.processedEntries.clear();
+    this.progressListener = options.onProgress;
+    this.log('INFO', 'Detecting tables', { fileName: file.name });
+
+    this.reportProgress('reading', 'Reading file');
+    const { workbook, labels } = await this.loadFile(file, options.labelProvider ?? localLabelProvider);
+    this.useKeywordLocale(workbook, options.keywordLocale ?? 'auto');
+
+    this.reportProgress('detecting', 'Detecting tables');
+    return this.detectWorkbookTables(workbook, labels);
+  }
+
+  static async processFile(file: File, options: ProcessingOptions = {}): Promise<TrialBalance> {
+    this.processingLogs = [];
+    this.progressListener = options.onProgress;
+    this.nameIndex.clear();
+    this.classificationCache.clear();
     this.unmatchedEntries = [];
     this.log('INFO', 'Starting file processing', { fileName: file.name });
+    this.useChart(options.chartOfAccounts ?? STANDARD_CHART);
+    this.codeRuleSet = options.codeRuleSet ?? DEFAULT_RULE_SET;
+    this.log('INFO', `Using code rules "${this.codeRuleSet.name}"`, { rules: this.codeRuleSet.rules.length });
+    this.learnedClassifications = new Map(
+      (options.learnedClassifications ?? []).map(learned => [learnedKey(learned.accountCode, learned.accountName), learned])
+    );
 
-    const buffer = await file.arrayBuffer();
-    const workbook = read(buffer);
-    const worksheet = workbook.Sheets[workbook.SheetNames[0]];
-    
-    const detectedTables = this.detectTables(worksheet, jigsawLabels);
+    this.reportProgress('reading', 'Reading file');
+    const { workbook, textDetails, labels } = await this.loadFile(file, options.labelProvider ?? localLabelProvider);
+    this.decimalSeparator = options.decimalSeparator ?? textDetails?.decimalSeparator ?? '.';
+    this.useKeywordLocale(workbook, options.keywordLocale ?? 'auto');
+
+    this.reportProgress('detecting', 'Detecting tables');
+    const detectedTables = this.detectWorkbookTables(workbook, labels);
     
     if (detectedTables.length === 0) {
       this.log('ERROR', 'No financial tables detected in the file');
       throw new Error('No financial tables detected in the file');
     }
 
-    const rawData = utils.sheet_to_json(worksheet);
-    if (rawData.length === 0) {
-      this.log('ERROR', 'No data found in the worksheet');
-      throw new Error('No data found in the worksheet');
+    const excludedSheets = options.excludedSheets ?? [];
+    const includedTables = detectedTables.filter(table => !excludedSheets.includes(table.sheetName));
+
+    if (includedTables.length === 0) {
+      this.log('ERROR', 'All sheets with financial tables were excluded');
+      throw new Error('No sheets selected for processing');
     }
 
+    excludedSheets.forEach(sheetName => {
+      this.log('INFO', `Sheet "${sheetName}" excluded from processing`);
+    });
+
     const entries: FinancialEntry[] = [];
     const uncertainClassifications: TrialBalance['uncertainClassifications'] = [];
     const totalsSummary: TotalSummary[] = [];
+    const statedTotals: StatedTotal[] = [];
 
-    rawData.forEach((row: any, index) => {
-      // Skip empty rows
-      if (this.isEmptyRow(row)) {
-        this.log('INFO', `Skipping empty row at index ${index}`);
-        return;
-      }
+    const totalRows = includedTables.reduce((sum, table) => sum + table.rowCount, 0);
+    let rowsProcessed = 0;
 
-      // Skip header rows
-      if (this.isHeaderRow(row)) {
-        this.log('INFO', `Skipping header row at index ${index}`, { row });
-        return;
+    const alternativesByAccount = new Map<string, AccountClassification[]>();
+
+    for (const table of includedTables) {
+      const { sheetName } = table;
+      const worksheet = workbook.Sheets[sheetName];
+
+      // The table range starts with its header rows
+      const tableRange = utils.decode_range(table.range);
+      const firstDataRow = Math.max(tableRange.s.r, ...table.headerRows) + 1;
+      if (firstDataRow > tableRange.e.r) {
+        this.log('WARNING', `No data found in table: ${table.name}`, { sheetName });
+        continue;
       }
 
-      // Handle total rows separately
-      if (this.isTotalRow(row)) {
-        const totalSummary = this.extractTotalSummary(row);
-        if (totalSummary) {
-          totalsSummary.push(totalSummary);
-          this.log('INFO', `Extracted total summary: ${totalSummary.name}`, totalSummary);
-        }
-        return;
+      const userMapping = options.columnMappings?.[table.name];
+      const mapping = userMapping ?? resolveColumns(table.headers, this.columnSynonyms).mapping;
+      this.log('INFO', `Column mapping for table: ${table.name}`, {
+        sheetName,
+        mapping,
+        source: userMapping ? 'user' : 'resolver'
+      });
+
+      if (!isMappingComplete(mapping)) {
+        this.log('WARNING', `Could not map account and amount columns for table: ${table.name}`, {
+          sheetName,
+          mapping
+        });
+        continue;
       }
 
-      const accountCode = row.AccountCode?.toString() || '';
-      const accountName = row.AccountName || '';
-      
-      const { classification, alternatives } = this.classifyAccount(accountCode, accountName);
-      
-      const debit = new Decimal(row.Debit || 0);
-      const credit = new Decimal(row.Credit || 0);
+      const columns = this.resolveColumnIndexes(table.headers, mapping);
+      // Entries from this index on belong to the section closed by the next total row
+      let sectionStart = entries.length;
 
-      const entry: FinancialEntry = {
-        accountCode,
-        accountName,
-        debit: debit.toNumber(),
-        credit: credit.toNumber(),
-        classification,
-        sourceTable: detectedTables[0].name,
-        rowIndex: index
-      };
+      // Read the table in chunks so large ledgers never materialise all rows at once
+      for (let chunkStart = firstDataRow; chunkStart <= tableRange.e.r; chunkStart += this.CHUNK_SIZE) {
+        const chunkEnd = Math.min(chunkStart + this.CHUNK_SIZE - 1, tableRange.e.r);
+        const rawData = utils.sheet_to_json<RawRow>(worksheet, {
+          header: 1,
+          range: { s: { r: chunkStart, c: tableRange.s.c }, e: { r: chunkEnd, c: tableRange.e.c } },
+          blankrows: true,
+          defval: null
+        });
+
+        rawData.forEach((rawRow, offset) => {
+          const rowIndex = chunkStart + offset;
 
-      entries.push(entry);
+          rowsProcessed++;
+          if (rowsProcessed % this.PROGRESS_INTERVAL === 0 || rowsProcessed === totalRows) {
+            this.reportProgress(
+              'classifying',
+              `Classifying row ${rowsProcessed.toLocaleString()} / ${totalRows.toLocaleString()}`,
+              rowsProcessed,
+              totalRows
+            );
+          }
+
+          // Skip empty rows
+          if (this.isEmptyRow(rawRow)) {
+            this.log('INFO', `Skipping empty row at index ${rowIndex}`, { sheetName });
+            return;
+          }
+
+          const row = this.mapRow(rawRow, columns, rowIndex, tableRange.s.c);
+
+          // Skip section header rows
+          if (this.isHeaderRow(row)) {
+            this.log('INFO', `Skipping header row at index ${rowIndex}`, { sheetName, row: rawRow });
+            return;
+          }
+
+          // Handle total rows separately
+          if (this.isTotalRow(row)) {
+            const name = [row.accountCode, row.accountName].filter(Boolean).join(' ');
+            const { debit, credit } = this.splitAmounts(row);
+            const totalSummary = this.extractTotalSummary(name, debit, credit);
+            totalsSummary.push(totalSummary);
+            statedTotals.push({
+              name,
+              sheetName,
+              sourceTable: table.name,
+              rowIndex,
+              debit,
+              credit,
+              section: entries.slice(sectionStart)
+            });
+            sectionStart = entries.length;
+            this.log('INFO', `Extracted total summary: ${totalSummary.name}`, { sheetName, ...totalSummary });
+            return;
+          }
+
+          const { accountCode, accountName } = row;
+
+          const { classification, alternatives } = this.classifyAccount(accountCode, accountName);
+          alternativesByAccount.set(this.accountKey(accountCode, accountName), alternatives);
+
+          const { debit, credit } = this.splitAmounts(row);
+
+          entries.push({
+            accountCode,
+            accountName,
+            debit: debit.toNumber(),
+            credit: credit.toNumber(),
+            classification,
+            sheetName,
+            sourceTable: table.name,
+            rowIndex
+          });
+        });
+
+        // Yield between chunks so progress messages and cancellation get through
+        await new Promise(resolve => setTimeout(resolve, 0));
+      }
+    }
+
+    const shouldAggregate = options.aggregateByAccount ?? totalRows >= this.LARGE_LEDGER_ROWS;
+    const framework = options.reportingFramework ?? DEFAULT_FRAMEWORK;
+    const finalEntries = this.attachTaxonomyElements(shouldAggregate ? this.aggregateEntries(entries) : entries, framework);
 
-      if (classification.confidence < 0.8 || alternatives.length > 0) {
+    finalEntries.forEach(entry => {
+      const alternatives = alternativesByAccount.get(this.accountKey(entry.accountCode, entry.accountName)) ?? [];
+      if (entry.classification.confidence < REVIEW_CONFIDENCE_THRESHOLD || alternatives.length > 0) {
         uncertainClassifications.push({
           entry,
-          possibleClassifications: [classification, ...alternatives]
+          possibleClassifications: [entry.classification, ...alternatives]
         });
       }
     });
 
+    if (finalEntries.length === 0) {
+      this.log('ERROR', 'No data found in the selected sheets');
+      throw new Error('No data found in the selected sheets');
+    }
+
+    this.reportProgress('totals', 'Calculating totals');
+
     const totalDebits = new Decimal(
-      entries.reduce((sum, entry) => sum.plus(entry.debit), new Decimal(0))
+      finalEntries.reduce((sum, entry) => sum.plus(entry.debit), new Decimal(0))
     );
     
     const totalCredits = new Decimal(
-      entries.reduce((sum, entry) => sum.plus(entry.credit), new Decimal(0))
+      finalEntries.reduce((sum, entry) => sum.plus(entry.credit), new Decimal(0))
     );
 
     const isBalanced = totalDebits.equals(totalCredits);
+    // Diagnosed on the rows as read, as aggregation hides duplicates and rows with both sides filled
+    const balanceDiagnostics = diagnoseImbalance(entries, totalDebits.toNumber(), totalCredits.toNumber());
     if (!isBalanced) {
       this.log('WARNING', 'Trial balance is not balanced', {
         totalDebits: totalDebits.toString(),
         totalCredits: totalCredits.toString(),
         difference: totalDebits.minus(totalCredits).toString()
       });
+      balanceDiagnostics.forEach((hypothesis, index) => {
+        this.log('INFO', `Possible cause ${index + 1} of ${balanceDiagnostics.length}: ${hypothesis.message}`, {
+          type: hypothesis.type,
+          score: hypothesis.score,
+          rows: hypothesis.rows.map(row => `${row.sheetName}!${row.rowIndex + 1} ${row.accountCode} ${row.accountName}`.trim())
+        });
+      });
+    }
+
+    const balanceWarnings = checkBalances(finalEntries);
+    if (balanceWarnings.length > 0) {
+      this.log('WARNING', `${balanceWarnings.length} entries have unusual balances`, {
+        high: balanceWarnings.filter(warning => warning.severity === 'high').length
+      });
+    }
+
+    const statements = buildFinancialStatements(finalEntries);
+    this.log('INFO', 'Built financial statements', {
+      netProfit: statements.incomeStatement.netProfit,
+      totalAssets: statements.balanceSheet.totalAssets
+    });
+    if (!statements.balanceSheet.isBalanced) {
+      this.log('WARNING', 'Statement of financial position does not balance', {
+        difference: statements.balanceSheet.difference,
+        unclassifiedEntries: statements.unclassified.entryCount
+      });
+    }
+
+    // Totals are checked against the rows as read, as aggregation merges accounts across sheets and tables
+    const totalReconciliations = reconcileTotals(statedTotals, entries, {
+      totalDebits: totalDebits.toNumber(),
+      totalCredits: totalCredits.toNumber()
+    });
+    const mismatchedTotals = totalReconciliations.filter(reconciliation => !reconciliation.matches);
+    if (mismatchedTotals.length > 0) {
+      this.log('WARNING', `${mismatchedTotals.length} totals stated in the file do not match the computed totals`, {
+        totals: mismatchedTotals.map(reconciliation => ({
+          name: reconciliation.name,
+          sheetName: reconciliation.sheetName,
+          scope: reconciliation.scope,
+          differences: reconciliation.comparisons.map(comparison => comparison.difference)
+        }))
+      });
+    }
+    const reconciledTotals = new Set(totalReconciliations.map(reconciliation => `${reconciliation.sheetName}|${reconciliation.rowIndex}`));
+    if (statedTotals.length > reconciledTotals.size) {
+      this.log('INFO', `${statedTotals.length - reconciledTotals.size} totals cover no rows and were not reconciled`);
     }
 
     // Sort totals summary by category and amount
@@ -701,15 +1369,23 @@ export class FinancialProcessor {
     });
 
     return {
-      entries,
+      entries: finalEntries,
       totalDebits: totalDebits.toNumber(),
       totalCredits: totalCredits.toNumber(),
       isBalanced,
+      balanceDiagnostics,
       detectedTables,
+      excludedSheets: excludedSheets.filter(sheetName => workbook.SheetNames.includes(sheetName)),
       processingLogs: this.processingLogs,
       uncertainClassifications,
       unmatchedEntries: this.unmatchedEntries,
-      totalsSummary: sortedTotalsSummary
+      totalsSummary: sortedTotalsSummary,
+      totalReconciliations,
+      categoryTotals: calculateCategoryTotals(finalEntries),
+      balanceWarnings,
+      statements,
+      ratios: calculateRatios(finalEntries, statements),
+      reportingFramework: framework
     };
   }
 }
\ No newline at end of file
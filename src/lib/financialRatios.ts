@@ -0,0 +1,226 @@
+import { Decimal } from 'decimal.js';
+import { REVIEW_CONFIDENCE_THRESHOLD } from './constants';
+import { presentedAmount, primaryOf } from './financialStatements';
+import type { Primary } from './financialStatements';
+import { hasSecondary, isLineItem, resolveTaxonomyConcept } from './taxonomy';
+import type { FinancialEntry, FinancialRatio, FinancialStatements, RatioInput } from './types';
+
+// Receivable and payable days assume the trial balance covers a full year
+const DAYS_IN_PERIOD = 365;
+
+interface InputSource {
+  label: string;
+  amount: number;
+  /** Entries behind the amount, checked for uncertain classifications */
+  entries: FinancialEntry[];
+  missing: boolean;
+}
+
+interface RatioDefinition {
+  id: string;
+  label: string;
+  formula: string;
+  unit: FinancialRatio['unit'];
+  numerator: InputSource;
+  denominator: InputSource;
+  /** Adjusted numerator, e.g. current assets less inventory; defaults to the numerator's amount */
+  numeratorAmount?: number;
+  /** Inputs that may legitimately be absent, such as inventory for a service business */
+  optional?: InputSource[];
+}
+
+function sumPresented(entries: FinancialEntry[]): number {
+  return entries.reduce((total, entry) => {
+    const primary = primaryOf(entry);
+    return primary ? total.plus(presentedAmount(entry, primary)) : total;
+  }, new Decimal(0)).toNumber();
+}
+
+function toInput(source: InputSource): RatioInput {
+  return {
+    label: source.label,
+    amount: source.amount,
+    entryCount: source.entries.length,
+    uncertainCount: source.entries.filter(entry => entry.classification.confidence < REVIEW_CONFIDENCE_THRESHOLD).length,
+    missing: source.missing
+  };
+}
+
+function evaluate(definition: RatioDefinition): FinancialRatio {
+  const { numerator, denominator, optional = [] } = definition;
+  const sources = [numerator, denominator];
+  const inputs = [...sources, ...optional.filter(source => !sources.includes(source))].map(toInput);
+
+  const flags: string[] = [];
+  sources.filter(source => source.missing).forEach(source => flags.push(`${source.label} has no classified entries`));
+  inputs.filter(input => input.uncertainCount > 0).forEach(input => {
+    flags.push(`${input.uncertainCount} ${input.label.toLowerCase()} ${input.uncertainCount === 1 ? 'entry is' : 'entries are'} below ${REVIEW_CONFIDENCE_THRESHOLD * 100}% confidence`);
+  });
+  if (denominator.amount === 0 && !denominator.missing) flags.push(`${denominator.label} is zero`);
+
+  let value: number | null = null;
+  // Without entries for either side the ratio would only report the gap as a number
+  if (!numerator.missing && !denominator.missing && denominator.amount !== 0) {
+    const top = definition.numeratorAmount ?? numerator.amount;
+    const scale = definition.unit === 'percent' ? 100 : definition.unit === 'days' ? DAYS_IN_PERIOD : 1;
+    value = new Decimal(top).dividedBy(denominator.amount).times(scale).toDecimalPlaces(2).toNumber();
+  }
+
+  return {
+    id: definition.id,
+    label: definition.label,
+    formula: definition.formula,
+    unit: definition.unit,
+    value,
+    inputs,
+    flags
+  };
+}
+
+/**
+ * Calculates liquidity, leverage, profitability and working capital ratios
+ * from the financial statements. Inputs are selected by each entry's own
+ * labels, falling back to its taxonomy line item. A ratio has no value when
+ * a required input has no entries or its denominator is zero, and is flagged
+ * when an input is missing or rests on classifications that still need review.
+ */
+export function calculateRatios(entries: FinancialEntry[], statements: FinancialStatements): FinancialRatio[] {
+  const conceptOf = new Map(entries.map(entry => [entry, resolveTaxonomyConcept(entry.classification)]));
+  const select = (primaries: Primary[], predicate: (entry: FinancialEntry) => boolean = () => true) =>
+    entries.filter(entry => {
+      const primary = primaryOf(entry);
+      return primary !== null && primaries.includes(primary) && predicate(entry);
+    });
+  const inSecondary = (secondary: string) => (entry: FinancialEntry) =>
+    hasSecondary(entry.classification, conceptOf.get(entry) ?? null, secondary);
+  const lineItem = (id: string) => (entry: FinancialEntry) =>
+    isLineItem(entry.classification, conceptOf.get(entry) ?? null, id);
+  const source = (label: string, selected: FinancialEntry[], amount = sumPresented(selected)): InputSource => ({
+    label,
+    amount,
+    entries: selected,
+    missing: selected.length === 0
+  });
+
+  const { balanceSheet, incomeStatement } = statements;
+  const isOperatingRevenue = (entry: FinancialEntry) => !conceptOf.get(entry) || inSecondary('Operating Revenue')(entry);
+  const isFinancialExpense = inSecondary('Financial Expenses');
+
+  const currentAssets = source('Current assets', select(['assets'], inSecondary('Current Assets')));
+  const currentLiabilities = source('Current liabilities', select(['liabilities'], inSecondary('Current Liabilities')));
+  const inventory = source('Inventory', select(['assets'], lineItem('inventory')));
+  const receivables = source('Receivables', select(['assets'], lineItem('receivables')));
+  const payables = source('Payables', select(['liabilities'], lineItem('payables')));
+  const totalAssets = source('Total assets', select(['assets']), balanceSheet.totalAssets);
+  const totalLiabilities = source('Total liabilities', select(['liabilities']), balanceSheet.totalLiabilities);
+  const revenue = source('Revenue', select(['revenue'], isOperatingRevenue), incomeStatement.revenue);
+  const costOfSales = source('Cost of sales', select(['expenses'], lineItem('cost-of-sales')));
+  const financeCosts = source('Interest expense', select(['expenses'], lineItem('finance-costs')));
+
+  // Profit figures come from the statements; their entries are every revenue and expense behind them
+  const grossProfit = {
+    ...source('Gross profit', [...revenue.entries, ...costOfSales.entries], incomeStatement.grossProfit),
+    missing: revenue.missing
+  };
+  const operatingProfit = {
+    ...source(
+      'Operating profit',
+      [...revenue.entries, ...select(['expenses'], entry => !isFinancialExpense(entry))],
+      incomeStatement.operatingProfit
+    ),
+    missing: revenue.missing
+  };
+  const netProfit = source('Net profit', select(['revenue', 'expenses']), incomeStatement.netProfit);
+  const equityEntries = select(['equity']);
+  const totalEquity = {
+    ...source('Total equity', [...equityEntries, ...netProfit.entries], balanceSheet.totalEquity),
+    missing: equityEntries.length === 0 && netProfit.missing
+  };
+
+  const definitions: RatioDefinition[] = [
+    {
+      id: 'current-ratio',
+      label: 'Current ratio',
+      formula: 'Current assets ÷ Current liabilities',
+      unit: 'times',
+      numerator: currentAssets,
+      denominator: currentLiabilities
+    },
+    {
+      id: 'quick-ratio',
+      label: 'Quick ratio',
+      formula: '(Current assets − Inventory) ÷ Current liabilities',
+      unit: 'times',
+      numerator: currentAssets,
+      denominator: currentLiabilities,
+      numeratorAmount: new Decimal(currentAssets.amount).minus(inventory.amount).toNumber(),
+      optional: [inventory]
+    },
+    {
+      id: 'debt-to-equity',
+      label: 'Debt to equity',
+      formula: 'Total liabilities ÷ Total equity',
+      unit: 'times',
+      numerator: totalLiabilities,
+      denominator: totalEquity
+    },
+    {
+      id: 'gross-margin',
+      label: 'Gross margin',
+      formula: 'Gross profit ÷ Revenue',
+      unit: 'percent',
+      numerator: grossProfit,
+      denominator: revenue,
+      optional: [costOfSales]
+    },
+    {
+      id: 'net-margin',
+      label: 'Net margin',
+      formula: 'Net profit ÷ Revenue',
+      unit: 'percent',
+      numerator: netProfit,
+      denominator: revenue
+    },
+    {
+      id: 'return-on-assets',
+      label: 'Return on assets',
+      formula: 'Net profit ÷ Total assets',
+      unit: 'percent',
+      numerator: netProfit,
+      denominator: totalAssets
+    },
+    {
+      id: 'return-on-equity',
+      label: 'Return on equity',
+      formula: 'Net profit ÷ Total equity',
+      unit: 'percent',
+      numerator: netProfit,
+      denominator: totalEquity
+    },
+    {
+      id: 'interest-cover',
+      label: 'Interest cover',
+      formula: 'Operating profit ÷ Interest expense',
+      unit: 'times',
+      numerator: operatingProfit,
+      denominator: financeCosts
+    },
+    {
+      id: 'receivable-days',
+      label: 'Receivable days',
+      formula: `Receivables ÷ Revenue × ${DAYS_IN_PERIOD}`,
+      unit: 'days',
+      numerator: receivables,
+      denominator: revenue
+    },
+    {
+      id: 'payable-days',
+      label: 'Payable days',
+      formula: `Payables ÷ Cost of sales × ${DAYS_IN_PERIOD}`,
+      unit: 'days',
+      numerator: payables,
+      denominator: costOfSales
+    }
+  ];
+  return definitions.map(evaluate);
+}
@@ -0,0 +1,255 @@
+import { Decimal } from 'decimal.js';
+import { hasSecondary, isLineItem, resolveTaxonomyConcept, TAXONOMY } from './taxonomy';
+import type { FinancialEntry, FinancialStatements, StatementLine } from './types';
+
+export type Primary = 'assets' | 'liabilities' | 'equity' | 'revenue' | 'expenses';
+
+interface Rollup {
+  label: string;
+  amount: Decimal;
+  entryCount: number;
+  /** Position of the line's taxonomy concept, so lines follow the taxonomy order */
+  order: number;
+}
+
+interface Group extends Rollup {
+  lines: Map<string, Rollup>;
+}
+
+// Differences below half a cent are rounding
+const BALANCE_TOLERANCE = 0.005;
+
+const PRIMARIES: Primary[] = ['assets', 'liabilities', 'equity', 'revenue', 'expenses'];
+
+export function primaryOf(entry: FinancialEntry): Primary | null {
+  const primary = entry.classification.primary.toLowerCase().replace(/_/g, ' ').trim();
+  return PRIMARIES.find(candidate => candidate === primary) ?? null;
+}
+
+// Assets and expenses are presented as debit minus credit, everything else as credit minus debit
+export function presentedAmount(entry: FinancialEntry, primary: Primary): Decimal {
+  const net = new Decimal(entry.debit).minus(entry.credit);
+  return primary === 'assets' || primary === 'expenses' ? net : net.negated();
+}
+
+function conceptOrder(entry: FinancialEntry): number {
+  const concept = resolveTaxonomyConcept(entry.classification);
+  return concept ? TAXONOMY.indexOf(concept) : TAXONOMY.length;
+}
+
+/**
+ * Rolls entries up into groups and lines. Groups use the taxonomy's secondary
+ * label so "Other Assets" style classifications land under a real heading;
+ * lines keep the classification's own tertiary label.
+ */
+function rollUp(entries: FinancialEntry[], primary: Primary, groupBy: (entry: FinancialEntry) => string): Group[] {
+  const groups = new Map<string, Group>();
+
+  entries.forEach(entry => {
+    const amount = presentedAmount(entry, primary);
+    const order = conceptOrder(entry);
+    const groupLabel = groupBy(entry);
+    const group = groups.get(groupLabel) ??
+      { label: groupLabel, amount: new Decimal(0), entryCount: 0, order, lines: new Map<string, Rollup>() };
+    group.amount = group.amount.plus(amount);
+    group.entryCount++;
+    group.order = Math.min(group.order, order);
+
+    const lineLabel = entry.classification.tertiary;
+    const line = group.lines.get(lineLabel) ?? { label: lineLabel, amount: new Decimal(0), entryCount: 0, order };
+    line.amount = line.amount.plus(amount);
+    line.entryCount++;
+    line.order = Math.min(line.order, order);
+    group.lines.set(lineLabel, line);
+    groups.set(groupLabel, group);
+  });
+
+  const byOrder = (a: Rollup, b: Rollup) => a.order - b.order || a.label.localeCompare(b.label);
+  return Array.from(groups.values())
+    .sort(byOrder)
+    .map(group => ({ ...group, lines: new Map([...group.lines.entries()].sort(([, a], [, b]) => byOrder(a, b))) }));
+}
+
+function sum(groups: Group[]): Decimal {
+  return groups.reduce((total, group) => total.plus(group.amount), new Decimal(0));
+}
+
+function itemLines(group: Group, depth: number): StatementLine[] {
+  return Array.from(group.lines.values()).map(line => ({
+    kind: 'item',
+    label: line.label,
+    amount: line.amount.toNumber(),
+    depth,
+    entryCount: line.entryCount
+  }));
+}
+
+function secondaryGroup(entry: FinancialEntry): string {
+  return resolveTaxonomyConcept(entry.classification)?.secondary ?? entry.classification.secondary;
+}
+
+/**
+ * Builds a section with a heading, each group's lines and subtotal, any extra
+ * lines and the section total.
+ */
+function sectionLines(
+  label: string,
+  groups: Group[],
+  totalLabel: string,
+  total: Decimal,
+  extra: StatementLine[] = []
+): StatementLine[] {
+  const lines: StatementLine[] = [{ kind: 'heading', label, amount: null, depth: 0 }];
+  groups.forEach(group => {
+    // A group named like its section, e.g. "Equity > Equity", would repeat the section total's label
+    const groupLabel = group.label.toLowerCase() === label.toLowerCase() ? `Other ${label.toLowerCase()}` : group.label;
+    lines.push({ kind: 'heading', label: groupLabel, amount: null, depth: 1 });
+    lines.push(...itemLines(group, 2));
+    lines.push({
+      kind: 'subtotal',
+      label: `Total ${groupLabel.toLowerCase()}`,
+      amount: group.amount.toNumber(),
+      depth: 1,
+      entryCount: group.entryCount
+    });
+  });
+  lines.push(...extra);
+  return lines.concat({ kind: 'total', label: totalLabel, amount: total.toNumber(), depth: 0 });
+}
+
+/** A profit and loss section listing its lines directly under the heading */
+function flatSection(label: string, groups: Group[], totalLabel: string): StatementLine[] {
+  if (groups.length === 0) return [];
+  return [
+    { kind: 'heading', label, amount: null, depth: 0 },
+    ...groups.flatMap(group => itemLines(group, 1)),
+    { kind: 'subtotal', label: totalLabel, amount: sum(groups).toNumber(), depth: 0 }
+  ];
+}
+
+/**
+ * Turns classified entries into a Statement of Profit or Loss and a Statement
+ * of Financial Position. Revenue under "Operating Revenue" is turnover and
+ * other revenue is other income; cost of sales and finance costs are split
+ * from the remaining expenses by their taxonomy line item. The period's net
+ * profit is carried into equity so the statement of financial position
+ * balances whenever the trial balance does.
+ */
+export function buildFinancialStatements(entries: FinancialEntry[]): FinancialStatements {
+  const byPrimary = new Map<Primary, FinancialEntry[]>(PRIMARIES.map(primary => [primary, []]));
+  const unclassified: FinancialEntry[] = [];
+  entries.forEach(entry => {
+    const primary = primaryOf(entry);
+    if (primary) byPrimary.get(primary)?.push(entry);
+    else unclassified.push(entry);
+  });
+  const entriesOf = (primary: Primary) => byPrimary.get(primary) ?? [];
+
+  // Statement of Profit or Loss
+  const revenueEntries = entriesOf('revenue');
+  const isOperatingRevenue = (entry: FinancialEntry) => {
+    const concept = resolveTaxonomyConcept(entry.classification);
+    return !concept || concept.secondary === 'Operating Revenue';
+  };
+  const revenue = rollUp(revenueEntries.filter(isOperatingRevenue), 'revenue', secondaryGroup);
+  const otherIncome = rollUp(revenueEntries.filter(entry => !isOperatingRevenue(entry)), 'revenue', secondaryGroup);
+
+  const expenseEntries = entriesOf('expenses');
+  // The entry's own labels decide first, so entries awaiting review still land in the right section
+  const expenseSection = (entry: FinancialEntry): 'cost-of-sales' | 'finance-costs' | 'operating' => {
+    const concept = resolveTaxonomyConcept(entry.classification);
+    if (hasSecondary(entry.classification, concept, 'Financial Expenses')) return 'finance-costs';
+    return isLineItem(entry.classification, concept, 'cost-of-sales') ? 'cost-of-sales' : 'operating';
+  };
+  const costOfSales = rollUp(
+    expenseEntries.filter(entry => expenseSection(entry) === 'cost-of-sales'),
+    'expenses',
+    secondaryGroup
+  );
+  const financeCosts = rollUp(
+    expenseEntries.filter(entry => expenseSection(entry) === 'finance-costs'),
+    'expenses',
+    secondaryGroup
+  );
+  const operatingExpenses = rollUp(
+    expenseEntries.filter(entry => expenseSection(entry) === 'operating'),
+    'expenses',
+    secondaryGroup
+  );
+
+  const revenueTotal = sum(revenue);
+  const costOfSalesTotal = sum(costOfSales);
+  const grossProfit = revenueTotal.minus(costOfSalesTotal);
+  const operatingExpensesTotal = sum(operatingExpenses);
+  const operatingProfit = grossProfit.minus(operatingExpensesTotal);
+  const otherIncomeTotal = sum(otherIncome);
+  const financeCostsTotal = sum(financeCosts);
+  const netProfit = operatingProfit.plus(otherIncomeTotal).minus(financeCostsTotal);
+
+  const incomeLines: StatementLine[] = [
+    ...flatSection('Revenue', revenue, 'Total revenue'),
+    ...flatSection('Cost of sales', costOfSales, 'Total cost of sales'),
+    { kind: 'total', label: 'Gross profit', amount: grossProfit.toNumber(), depth: 0 },
+    ...flatSection('Operating expenses', operatingExpenses, 'Total operating expenses'),
+    { kind: 'total', label: 'Operating profit', amount: operatingProfit.toNumber(), depth: 0 },
+    ...flatSection('Other income', otherIncome, 'Total other income'),
+    ...flatSection('Finance costs', financeCosts, 'Total finance costs'),
+    { kind: 'total', label: 'Net profit', amount: netProfit.toNumber(), depth: 0 }
+  ];
+
+  // Statement of Financial Position
+  const assets = rollUp(entriesOf('assets'), 'assets', secondaryGroup);
+  const liabilities = rollUp(entriesOf('liabilities'), 'liabilities', secondaryGroup);
+  const equity = rollUp(entriesOf('equity'), 'equity', secondaryGroup);
+
+  const totalAssets = sum(assets);
+  const totalLiabilities = sum(liabilities);
+  const totalEquity = sum(equity).plus(netProfit);
+  const difference = totalAssets.minus(totalLiabilities).minus(totalEquity);
+  const unclassifiedNet = unclassified.reduce(
+    (total, entry) => total.plus(entry.debit).minus(entry.credit),
+    new Decimal(0)
+  );
+
+  const balanceLines: StatementLine[] = [
+    ...sectionLines('Assets', assets, 'Total assets', totalAssets),
+    ...sectionLines('Liabilities', liabilities, 'Total liabilities', totalLiabilities),
+    ...sectionLines('Equity', equity, 'Total equity', totalEquity, [
+      { kind: 'item', label: 'Profit for the period', amount: netProfit.toNumber(), depth: 1 }
+    ]),
+    { kind: 'total', label: 'Total liabilities and equity', amount: totalLiabilities.plus(totalEquity).toNumber(), depth: 0 }
+  ];
+  if (unclassified.length > 0) {
+    balanceLines.push({
+      kind: 'item',
+      label: 'Unclassified balances (debit less credit)',
+      amount: unclassifiedNet.toNumber(),
+      depth: 0,
+      entryCount: unclassified.length
+    });
+  }
+
+  return {
+    balanceSheet: {
+      lines: balanceLines,
+      totalAssets: totalAssets.toNumber(),
+      totalLiabilities: totalLiabilities.toNumber(),
+      totalEquity: totalEquity.toNumber(),
+      currentPeriodProfit: netProfit.toNumber(),
+      difference: difference.toNumber(),
+      isBalanced: difference.abs().lessThan(BALANCE_TOLERANCE)
+    },
+    incomeStatement: {
+      lines: incomeLines,
+      revenue: revenueTotal.toNumber(),
+      costOfSales: costOfSalesTotal.toNumber(),
+      grossProfit: grossProfit.toNumber(),
+      operatingExpenses: operatingExpensesTotal.toNumber(),
+      operatingProfit: operatingProfit.toNumber(),
+      otherIncome: otherIncomeTotal.toNumber(),
+      financeCosts: financeCostsTotal.toNumber(),
+      netProfit: netProfit.toNumber()
+    },
+    unclassified: { entryCount: unclassified.length, net: unclassifiedNet.toNumber() }
+  };
+}
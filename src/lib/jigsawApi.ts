@@ -1,4 +1,5 @@
-const JIGSAWSTACK_API_KEY = 'pk_96e03b0b9d8b0db417b84a7c63e7f924bf77422b18f2aad6ebda323e32b6e31bf40cc858869267718fe277a864d941e94f157aa6e91c2b4848a8574d925f591e024bxNtmR1itbOLkaDTrF';
+import type { FinancialLabel, LabelProvider } from './labelProviders';
+
 const JIGSAWSTACK_API_URL = 'https://api.jigsawstack.com/v1/vocr';
 
 interface JigsawStackResponse {
@@ -16,12 +17,6 @@ interface JigsawStackResponse {
   }[];
 }
 
-export interface FinancialLabel {
-  text: string;
-  confidence: number;
-  type: 'account_description' | 'debit' | 'credit' | 'unknown';
-}
-
 function arrayBufferToBase64(buffer: ArrayBuffer): string {
   const bytes = new Uint8Array(buffer);
   let binary = '';
@@ -32,7 +27,7 @@ function arrayBufferToBase64(buffer: ArrayBuffer): string {
   return btoa(binary);
 }
 
-export async function extractTextFromExcel(excelData: ArrayBuffer): Promise<FinancialLabel[]> {
+async function extractTextFromExcel(apiKey: string, excelData: ArrayBuffer, mimeType: string): Promise<FinancialLabel[]> {
   try {
     // Convert Excel data to base64
     const base64Data = arrayBufferToBase64(excelData);
@@ -44,11 +39,11 @@ export async function extractTextFromExcel(excelData: ArrayBuffer): Promise<Fina
       method: 'POST',
       headers: {
         'Content-Type': 'application/json',
-        'x-api-key': JIGSAWSTACK_API_KEY,
+        'x-api-key': apiKey,
       },
       body: JSON.stringify({
         data: base64Data,
-        mime_type: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+        mime_type: mimeType,
         options: {
           language: 'en',
           detect_orientation: true,
@@ -81,10 +76,23 @@ export async function extractTextFromExcel(excelData: ArrayBuffer): Promise<Fina
     return processedLabels;
   } catch (error) {
     console.error('Error processing Excel with JigsawStack:', error);
-    throw new Error(`Failed to process Excel file with JigsawStack API: ${error.message}`);
+    const message = error instanceof Error ? error.message : String(error);
+    throw new Error(`Failed to process Excel file with JigsawStack API: ${message}`);
   }
 }
 
+/**
+ * Remote provider that uploads the whole workbook to the JigsawStack vOCR
+ * endpoint. Only enabled through environment settings.
+ */
+export function createJigsawStackProvider(apiKey: string): LabelProvider {
+  return {
+    name: 'JigsawStack vOCR',
+    isRemote: true,
+    extractLabels: ({ buffer, mimeType }) => extractTextFromExcel(apiKey, buffer, mimeType)
+  };
+}
+
 function processExtractedText(data: JigsawStackResponse['data']): FinancialLabel[] {
   if (!data) return [];
 
@@ -0,0 +1,430 @@
+import { COLUMN_SYNONYMS, FINANCIAL_KEYWORDS } from './constants';
+import type { ColumnField } from './types';
+
+export const KEYWORD_LOCALES = ['en', 'fr', 'de', 'es', 'id'] as const;
+export type KeywordLocale = typeof KEYWORD_LOCALES[number];
+/** Locale chosen by the user, or "auto" to detect it from the file */
+export type KeywordLocaleSetting = KeywordLocale | 'auto';
+
+export type StatementType = 'TRIAL_BALANCE' | 'BALANCE_SHEET' | 'INCOME_STATEMENT';
+export type ColumnSynonyms = Record<ColumnField, readonly string[]>;
+
+type EnglishHierarchy = typeof FINANCIAL_KEYWORDS.HIERARCHICAL;
+
+/** Same nodes as the English taxonomy so every pack classifies into one tree */
+type KeywordHierarchy = {
+  [Primary in keyof EnglishHierarchy]: {
+    [Secondary in keyof EnglishHierarchy[Primary]]: EnglishHierarchy[Primary][Secondary] extends readonly string[]
+      ? readonly string[]
+      : { [Tertiary in keyof EnglishHierarchy[Primary][Secondary]]: readonly string[] };
+  };
+};
+
+export interface KeywordPack {
+  locale: KeywordLocale;
+  label: string;
+  statements: Record<StatementType, readonly string[]>;
+  hierarchy: KeywordHierarchy;
+  columns: ColumnSynonyms;
+}
+
+export interface KeywordNode {
+  locale: KeywordLocale;
+  primary: string;
+  secondary: string;
+  tertiary: string;
+  keywords: readonly string[];
+  /** Keywords with accents removed, in the same order as keywords */
+  foldedKeywords: string[];
+}
+
+const ENGLISH_PACK: KeywordPack = {
+  locale: 'en',
+  label: 'English',
+  statements: {
+    TRIAL_BALANCE: FINANCIAL_KEYWORDS.TRIAL_BALANCE,
+    BALANCE_SHEET: FINANCIAL_KEYWORDS.BALANCE_SHEET,
+    INCOME_STATEMENT: FINANCIAL_KEYWORDS.INCOME_STATEMENT
+  },
+  hierarchy: FINANCIAL_KEYWORDS.HIERARCHICAL,
+  columns: COLUMN_SYNONYMS
+};
+
+const FRENCH_PACK: KeywordPack = {
+  locale: 'fr',
+  label: 'Français',
+  statements: {
+    TRIAL_BALANCE: ['balance générale', 'balance des comptes', 'balance comptable', 'grand livre', 'solde'],
+    BALANCE_SHEET: ['bilan', 'actif', 'passif', 'situation financière'],
+    INCOME_STATEMENT: ['compte de résultat', 'charges et produits', 'produits et charges', 'résultat']
+  },
+  hierarchy: {
+    ASSETS: {
+      CURRENT_ASSETS: {
+        CASH: ['caisse', 'banque', 'trésorerie', 'disponibilités', 'petite caisse'],
+        RECEIVABLES: ['créances clients', 'clients', 'créances', 'débiteurs divers'],
+        INVENTORY: ['stocks', 'stock', 'marchandises', 'matières premières', 'en-cours'],
+        PREPAYMENTS: ["charges constatées d'avance", 'avances et acomptes versés', 'acompte']
+      },
+      NON_CURRENT_ASSETS: {
+        FIXED_ASSETS: ['immobilisations corporelles', 'terrains', 'constructions', 'matériel', 'installations techniques', 'mobilier'],
+        INVESTMENTS: ['immobilisations financières', 'titres de participation', 'valeurs mobilières', 'placements'],
+        INTANGIBLES: ['immobilisations incorporelles', 'fonds commercial', 'brevets', 'logiciels']
+      }
+    },
+    LIABILITIES: {
+      CURRENT_LIABILITIES: {
+        PAYABLES: ['dettes fournisseurs', 'fournisseurs', 'fournisseurs et comptes rattachés'],
+        SHORT_TERM_LOANS: ['découvert', 'concours bancaires courants', 'emprunt à court terme'],
+        ACCRUALS: ['charges à payer', 'factures non parvenues', 'provisions pour risques']
+      },
+      NON_CURRENT_LIABILITIES: {
+        LONG_TERM_LOANS: ['emprunts', 'emprunt bancaire', 'dettes financières', 'emprunt à long terme'],
+        DEFERRED_TAX: ['impôts différés', 'impôt différé']
+      }
+    },
+    EQUITY: {
+      CAPITAL: ['capital social', 'capital souscrit', 'capital'],
+      RESERVES: ['réserve légale', 'réserves', "primes d'émission"],
+      RETAINED_EARNINGS: ['report à nouveau', "résultat de l'exercice"]
+    },
+    REVENUE: {
+      OPERATING_REVENUE: {
+        SALES: ['ventes de marchandises', 'production vendue', "chiffre d'affaires", 'prestations de services', 'ventes'],
+        COMMISSION: ['commissions reçues', 'courtages']
+      },
+      OTHER_REVENUE: {
+        INTEREST: ['produits financiers', 'intérêts reçus', "produits d'intérêts"],
+        DIVIDEND: ['dividendes reçus', 'revenus des titres']
+      }
+    },
+    EXPENSES: {
+      OPERATING_EXPENSES: {
+        EMPLOYEE: ['salaires', 'rémunérations du personnel', 'charges sociales', 'traitements'],
+        OFFICE: ['loyer', 'loyers', 'électricité', 'assurances', 'entretien', 'fournitures de bureau'],
+        SELLING: ['publicité', 'marketing', 'promotion']
+      },
+      FINANCIAL_EXPENSES: {
+        INTEREST: ["charges d'intérêts", 'intérêts des emprunts', 'charges financières'],
+        BANK_CHARGES: ['frais bancaires', 'services bancaires', 'commissions bancaires']
+      }
+    }
+  },
+  columns: {
+    accountCode: ['numéro de compte', 'n° compte', 'n° de compte', 'compte', 'code'],
+    accountName: ['libellé', 'intitulé', 'intitulé du compte', 'libellé du compte', 'désignation'],
+    debit: ['débit', 'débits', 'solde débiteur', 'mouvements débit'],
+    credit: ['crédit', 'crédits', 'solde créditeur', 'mouvements crédit'],
+    balance: ['solde', 'solde net', 'solde final', 'montant']
+  }
+};
+
+const GERMAN_PACK: KeywordPack = {
+  locale: 'de',
+  label: 'Deutsch',
+  statements: {
+    TRIAL_BALANCE: ['summen- und saldenliste', 'saldenliste', 'susa', 'rohbilanz', 'hauptbuch'],
+    BALANCE_SHEET: ['bilanz', 'aktiva', 'passiva', 'vermögenslage'],
+    INCOME_STATEMENT: ['gewinn- und verlustrechnung', 'guv', 'erfolgsrechnung', 'aufwand', 'ertrag']
+  },
+  hierarchy: {
+    ASSETS: {
+      CURRENT_ASSETS: {
+        CASH: ['kasse', 'bank', 'guthaben bei kreditinstituten', 'bankguthaben', 'flüssige mittel'],
+        RECEIVABLES: ['forderungen aus lieferungen', 'forderungen', 'debitoren'],
+        INVENTORY: ['vorräte', 'warenbestand', 'roh-, hilfs- und betriebsstoffe', 'fertige erzeugnisse', 'waren'],
+        PREPAYMENTS: ['aktive rechnungsabgrenzung', 'geleistete anzahlungen', 'vorauszahlungen']
+      },
+      NON_CURRENT_ASSETS: {
+        FIXED_ASSETS: ['sachanlagen', 'grundstücke', 'gebäude', 'maschinen', 'betriebs- und geschäftsausstattung', 'technische anlagen'],
+        INVESTMENTS: ['finanzanlagen', 'beteiligungen', 'wertpapiere'],
+        INTANGIBLES: ['immaterielle vermögensgegenstände', 'geschäfts- oder firmenwert', 'lizenzen', 'patente', 'software']
+      }
+    },
+    LIABILITIES: {
+      CURRENT_LIABILITIES: {
+        PAYABLES: ['verbindlichkeiten aus lieferungen', 'kreditoren', 'lieferantenverbindlichkeiten'],
+        SHORT_TERM_LOANS: ['kontokorrent', 'kurzfristige darlehen', 'kurzfristige bankverbindlichkeiten'],
+        ACCRUALS: ['rückstellungen', 'sonstige rückstellungen', 'passive rechnungsabgrenzung']
+      },
+      NON_CURRENT_LIABILITIES: {
+        LONG_TERM_LOANS: ['langfristige darlehen', 'verbindlichkeiten gegenüber kreditinstituten', 'darlehen', 'hypothek'],
+        DEFERRED_TAX: ['latente steuern', 'passive latente steuern']
+      }
+    },
+    EQUITY: {
+      CAPITAL: ['gezeichnetes kapital', 'stammkapital', 'grundkapital'],
+      RESERVES: ['kapitalrücklage', 'gewinnrücklagen', 'rücklage'],
+      RETAINED_EARNINGS: ['gewinnvortrag', 'verlustvortrag', 'jahresüberschuss', 'bilanzgewinn']
+    },
+    REVENUE: {
+      OPERATING_REVENUE: {
+        SALES: ['umsatzerlöse', 'erlöse', 'umsatz'],
+        COMMISSION: ['provisionserlöse', 'provisionen']
+      },
+      OTHER_REVENUE: {
+        INTEREST: ['zinserträge', 'zinsen und ähnliche erträge'],
+        DIVIDEND: ['dividendenerträge', 'erträge aus beteiligungen']
+      }
+    },
+    EXPENSES: {
+      OPERATING_EXPENSES: {
+        EMPLOYEE: ['löhne', 'gehälter', 'soziale abgaben', 'personalaufwand'],
+        OFFICE: ['miete', 'raumkosten', 'strom', 'versicherungen', 'instandhaltung', 'bürobedarf'],
+        SELLING: ['werbekosten', 'werbung', 'marketing']
+      },
+      FINANCIAL_EXPENSES: {
+        INTEREST: ['zinsaufwand', 'zinsen und ähnliche aufwendungen'],
+        BANK_CHARGES: ['bankgebühren', 'nebenkosten des geldverkehrs', 'kontoführungsgebühren']
+      }
+    }
+  },
+  columns: {
+    accountCode: ['konto', 'kontonummer', 'konto-nr', 'konto nr', 'kto', 'sachkonto'],
+    accountName: ['bezeichnung', 'kontobezeichnung', 'beschreibung', 'kontoname'],
+    debit: ['soll', 'saldo soll', 'soll-saldo', 'sollsaldo'],
+    credit: ['haben', 'saldo haben', 'haben-saldo', 'habensaldo'],
+    balance: ['saldo', 'endsaldo', 'schlusssaldo', 'betrag']
+  }
+};
+
+const SPANISH_PACK: KeywordPack = {
+  locale: 'es',
+  label: 'Español',
+  statements: {
+    TRIAL_BALANCE: ['balance de comprobación', 'balance de sumas y saldos', 'balanza de comprobación', 'libro mayor'],
+    BALANCE_SHEET: ['balance general', 'balance de situación', 'estado de situación financiera', 'activo', 'pasivo'],
+    INCOME_STATEMENT: ['estado de resultados', 'cuenta de pérdidas y ganancias', 'pérdidas y ganancias', 'resultados']
+  },
+  hierarchy: {
+    ASSETS: {
+      CURRENT_ASSETS: {
+        CASH: ['caja', 'bancos', 'efectivo', 'tesorería', 'caja chica'],
+        RECEIVABLES: ['cuentas por cobrar', 'clientes', 'deudores comerciales', 'deudores'],
+        INVENTORY: ['inventario', 'existencias', 'mercaderías', 'mercancías', 'materias primas'],
+        PREPAYMENTS: ['gastos anticipados', 'pagos anticipados', 'anticipos a proveedores']
+      },
+      NON_CURRENT_ASSETS: {
+        FIXED_ASSETS: ['inmovilizado material', 'propiedad, planta y equipo', 'terrenos', 'edificios', 'maquinaria', 'mobiliario'],
+        INVESTMENTS: ['inversiones financieras', 'inversiones', 'valores negociables'],
+        INTANGIBLES: ['inmovilizado intangible', 'activos intangibles', 'patentes', 'fondo de comercio', 'licencias']
+      }
+    },
+    LIABILITIES: {
+      CURRENT_LIABILITIES: {
+        PAYABLES: ['cuentas por pagar', 'proveedores', 'acreedores comerciales', 'acreedores'],
+        SHORT_TERM_LOANS: ['préstamos a corto plazo', 'deudas a corto plazo', 'sobregiro', 'descubierto'],
+        ACCRUALS: ['gastos acumulados', 'gastos devengados', 'provisiones']
+      },
+      NON_CURRENT_LIABILITIES: {
+        LONG_TERM_LOANS: ['préstamos a largo plazo', 'deudas a largo plazo', 'hipoteca'],
+        DEFERRED_TAX: ['impuesto diferido', 'impuestos diferidos']
+      }
+    },
+    EQUITY: {
+      CAPITAL: ['capital social', 'capital suscrito'],
+      RESERVES: ['reserva legal', 'reservas'],
+      RETAINED_EARNINGS: ['resultados acumulados', 'utilidades retenidas', 'remanente', 'resultado del ejercicio']
+    },
+    REVENUE: {
+      OPERATING_REVENUE: {
+        SALES: ['ventas', 'ingresos por ventas', 'prestación de servicios', 'ingresos ordinarios'],
+        COMMISSION: ['comisiones ganadas', 'ingresos por comisiones']
+      },
+      OTHER_REVENUE: {
+        INTEREST: ['ingresos financieros', 'intereses ganados', 'ingresos por intereses'],
+        DIVIDEND: ['dividendos recibidos', 'ingresos por dividendos']
+      }
+    },
+    EXPENSES: {
+      OPERATING_EXPENSES: {
+        EMPLOYEE: ['sueldos', 'salarios', 'seguridad social', 'remuneraciones', 'nómina'],
+        OFFICE: ['arrendamientos', 'alquiler', 'suministros', 'seguros', 'reparaciones', 'material de oficina'],
+        SELLING: ['publicidad', 'propaganda', 'marketing']
+      },
+      FINANCIAL_EXPENSES: {
+        INTEREST: ['gastos financieros', 'gastos por intereses', 'intereses de deudas'],
+        BANK_CHARGES: ['comisiones bancarias', 'gastos bancarios', 'servicios bancarios']
+      }
+    }
+  },
+  columns: {
+    accountCode: ['cuenta', 'código', 'código de cuenta', 'número de cuenta', 'nº cuenta'],
+    accountName: ['descripción', 'nombre de la cuenta', 'nombre', 'concepto', 'denominación'],
+    debit: ['debe', 'débito', 'cargos', 'saldo deudor'],
+    credit: ['haber', 'crédito', 'abonos', 'saldo acreedor'],
+    balance: ['saldo', 'saldo final', 'importe', 'monto']
+  }
+};
+
+const INDONESIAN_PACK: KeywordPack = {
+  locale: 'id',
+  label: 'Bahasa Indonesia',
+  statements: {
+    TRIAL_BALANCE: ['neraca saldo', 'neraca lajur', 'buku besar', 'saldo'],
+    BALANCE_SHEET: ['neraca', 'laporan posisi keuangan', 'posisi keuangan', 'aset', 'liabilitas', 'ekuitas'],
+    INCOME_STATEMENT: ['laporan laba rugi', 'laba rugi', 'penghasilan komprehensif']
+  },
+  hierarchy: {
+    ASSETS: {
+      CURRENT_ASSETS: {
+        CASH: ['kas', 'bank', 'kas kecil', 'setara kas', 'giro'],
+        RECEIVABLES: ['piutang usaha', 'piutang dagang', 'piutang'],
+        INVENTORY: ['persediaan', 'persediaan barang dagang', 'barang jadi', 'bahan baku'],
+        PREPAYMENTS: ['biaya dibayar dimuka', 'dibayar di muka', 'sewa dibayar dimuka', 'uang muka']
+      },
+      NON_CURRENT_ASSETS: {
+        FIXED_ASSETS: ['aset tetap', 'aktiva tetap', 'tanah', 'bangunan', 'peralatan', 'kendaraan', 'mesin'],
+        INVESTMENTS: ['investasi', 'penyertaan saham', 'surat berharga'],
+        INTANGIBLES: ['aset tak berwujud', 'aset tidak berwujud', 'hak paten', 'lisensi', 'merek dagang']
+      }
+    },
+    LIABILITIES: {
+      CURRENT_LIABILITIES: {
+        PAYABLES: ['utang usaha', 'hutang usaha', 'utang dagang', 'hutang dagang'],
+        SHORT_TERM_LOANS: ['utang bank jangka pendek', 'pinjaman jangka pendek', 'cerukan'],
+        ACCRUALS: ['biaya yang masih harus dibayar', 'beban akrual', 'akrual', 'utang beban']
+      },
+      NON_CURRENT_LIABILITIES: {
+        LONG_TERM_LOANS: ['utang jangka panjang', 'hutang jangka panjang', 'pinjaman jangka panjang', 'utang hipotek'],
+        DEFERRED_TAX: ['pajak tangguhan', 'liabilitas pajak tangguhan']
+      }
+    },
+    EQUITY: {
+      CAPITAL: ['modal saham', 'modal disetor', 'modal'],
+      RESERVES: ['cadangan', 'cadangan umum'],
+      RETAINED_EARNINGS: ['laba ditahan', 'saldo laba', 'laba tahun berjalan']
+    },
+    REVENUE: {
+      OPERATING_REVENUE: {
+        SALES: ['penjualan', 'pendapatan usaha', 'pendapatan jasa'],
+        COMMISSION: ['pendapatan komisi', 'komisi']
+      },
+      OTHER_REVENUE: {
+        INTEREST: ['pendapatan bunga', 'jasa giro', 'bunga bank'],
+        DIVIDEND: ['pendapatan dividen', 'dividen']
+      }
+    },
+    EXPENSES: {
+      OPERATING_EXPENSES: {
+        EMPLOYEE: ['beban gaji', 'gaji', 'upah', 'tunjangan', 'beban karyawan'],
+        OFFICE: ['beban sewa', 'sewa', 'listrik', 'asuransi', 'pemeliharaan', 'perlengkapan kantor'],
+        SELLING: ['beban iklan', 'iklan', 'promosi', 'pemasaran']
+      },
+      FINANCIAL_EXPENSES: {
+        INTEREST: ['beban bunga', 'biaya bunga'],
+        BANK_CHARGES: ['biaya administrasi bank', 'administrasi bank', 'biaya bank']
+      }
+    }
+  },
+  columns: {
+    accountCode: ['kode akun', 'no akun', 'no. akun', 'nomor akun', 'kode perkiraan', 'no perkiraan', 'kode'],
+    accountName: ['nama akun', 'nama perkiraan', 'keterangan', 'uraian', 'akun', 'perkiraan'],
+    debit: ['debet', 'saldo debet', 'mutasi debet'],
+    credit: ['kredit', 'saldo kredit', 'mutasi kredit'],
+    balance: ['saldo', 'saldo akhir', 'jumlah', 'nilai']
+  }
+};
+
+export const KEYWORD_PACKS: Record<KeywordLocale, KeywordPack> = {
+  en: ENGLISH_PACK,
+  fr: FRENCH_PACK,
+  de: GERMAN_PACK,
+  es: SPANISH_PACK,
+  id: INDONESIAN_PACK
+};
+
+/**
+ * Lowercases text and strips accents so "Créances" matches "creances" and
+ * "Gehälter" matches "gehalter"; ß is spelled out as ss.
+ */
+export function foldAccents(text: string): string {
+  return text.normalize('NFD').replace(/[\u0300-\u036f]/g, '').toLowerCase().replace(/ß/g, 'ss');
+}
+
+/**
+ * Packs used for a file: English is always active because foreign ledgers
+ * often mix in English terms, followed by the file's own locale.
+ */
+export function activeKeywordPacks(locale: KeywordLocale): KeywordPack[] {
+  return locale === 'en' ? [ENGLISH_PACK] : [ENGLISH_PACK, KEYWORD_PACKS[locale]];
+}
+
+export function columnSynonymsFor(locale: KeywordLocale = 'en'): ColumnSynonyms {
+  const packs = activeKeywordPacks(locale);
+  const merge = (field: ColumnField) => packs.flatMap(pack => pack.columns[field]);
+  return {
+    accountCode: merge('accountCode'),
+    accountName: merge('accountName'),
+    debit: merge('debit'),
+    credit: merge('credit'),
+    balance: merge('balance')
+  };
+}
+
+export function statementKeywordsFor(locale: KeywordLocale, type: StatementType): string[] {
+  return activeKeywordPacks(locale).flatMap(pack => pack.statements[type]).map(foldAccents);
+}
+
+/**
+ * Flattens the hierarchies of the active packs into classification nodes.
+ * Branches that stop at two levels use the secondary name as tertiary.
+ */
+export function keywordNodesFor(locale: KeywordLocale): KeywordNode[] {
+  return activeKeywordPacks(locale).flatMap(pack =>
+    Object.entries(pack.hierarchy).flatMap(([primary, secondaryGroups]) =>
+      Object.entries(secondaryGroups as Record<string, readonly string[] | Record<string, readonly string[]>>)
+        .flatMap(([secondary, tertiaryGroups]) => {
+          const groups: [string, readonly string[]][] = Array.isArray(tertiaryGroups)
+            ? [[secondary, tertiaryGroups]]
+            : Object.entries(tertiaryGroups);
+          return groups.map(([tertiary, keywords]) => ({
+            locale: pack.locale,
+            primary,
+            secondary,
+            tertiary,
+            keywords,
+            foldedKeywords: keywords.map(foldAccents)
+          }));
+        })
+    )
+  );
+}
+
+function containsTerm(text: string, term: string): boolean {
+  const index = text.indexOf(term);
+  if (index < 0) return false;
+  // Short terms such as "kas" or "soll" only count as whole words
+  const before = text[index - 1];
+  const after = text[index + term.length];
+  return (!before || !/[a-z0-9]/.test(before)) && (!after || !/[a-z0-9]/.test(after));
+}
+
+function packTerms(pack: KeywordPack): string[] {
+  const hierarchyTerms = keywordNodesFor(pack.locale)
+    .filter(node => node.locale === pack.locale)
+    .flatMap(node => node.foldedKeywords);
+  return [...new Set([
+    ...Object.values(pack.columns).flat().map(foldAccents),
+    ...Object.values(pack.statements).flat().map(foldAccents),
+    ...hierarchyTerms
+  ])];
+}
+
+/**
+ * Picks the locale whose header and account terms appear most often in the
+ * sampled cells. Another locale must beat English outright to be chosen.
+ */
+export function detectKeywordLocale(texts: string[]): KeywordLocale {
+  const folded = [...new Set(texts.map(text => foldAccents(text).replace(/\s+/g, ' ').trim()).filter(Boolean))];
+
+  const scores = KEYWORD_LOCALES.map(locale => {
+    const terms = packTerms(KEYWORD_PACKS[locale]);
+    const score = folded.filter(text => terms.some(term => containsTerm(text, term))).length;
+    return { locale, score };
+  });
+
+  const english = scores[0];
+  const best = scores.slice(1).reduce((top, candidate) => candidate.score > top.score ? candidate : top, english);
+  return best.locale;
+}
@@ -0,0 +1,99 @@
+import { utils } from 'xlsx';
+import type { WorkBook } from 'xlsx';
+import { classifyHeader } from './columnResolver';
+import type { ColumnField } from './types';
+import { createJigsawStackProvider } from './jigsawApi';
+
+export interface FinancialLabel {
+  text: string;
+  confidence: number;
+  type: 'account_description' | 'account_code' | 'debit' | 'credit' | 'balance' | 'unknown';
+  /** Sheet the label was read from; labels without one apply to every sheet */
+  sheetName?: string;
+}
+
+export interface LabelInput {
+  workbook: WorkBook;
+  buffer: ArrayBuffer;
+  fileName: string;
+  mimeType: string;
+}
+
+export interface LabelProvider {
+  name: string;
+  /** Remote providers send the file contents to an external service */
+  isRemote: boolean;
+  extractLabels(input: LabelInput): Promise<FinancialLabel[]>;
+}
+
+const LABEL_TYPES: Record<ColumnField, FinancialLabel['type']> = {
+  accountCode: 'account_code',
+  accountName: 'account_description',
+  debit: 'debit',
+  credit: 'credit',
+  balance: 'balance'
+};
+
+// Header rows sit near the top of a table, so deep data rows are not scanned
+const MAX_SCAN_ROWS = 200;
+const MIN_LABEL_SCORE = 0.8;
+
+/**
+ * Reads header cells straight from the workbook. Rows with at least two text
+ * cells are treated as candidate headers and each cell is matched against the
+ * column synonyms; nothing leaves the machine.
+ */
+export const localLabelProvider: LabelProvider = {
+  name: 'Local header scan',
+  isRemote: false,
+  async extractLabels({ workbook }) {
+    const labels: FinancialLabel[] = [];
+
+    workbook.SheetNames.forEach(sheetName => {
+      const worksheet = workbook.Sheets[sheetName];
+      const range = utils.decode_range(worksheet['!ref'] || 'A1');
+      const lastRow = Math.min(range.e.r, range.s.r + MAX_SCAN_ROWS);
+
+      for (let row = range.s.r; row <= lastRow; row++) {
+        const texts: string[] = [];
+        for (let col = range.s.c; col <= range.e.c; col++) {
+          const value = worksheet[utils.encode_cell({ r: row, c: col })]?.v;
+          if (typeof value === 'string' && value.trim()) texts.push(value);
+        }
+        if (texts.length < 2) continue;
+
+        texts.forEach(text => {
+          const match = classifyHeader(text);
+          if (match && match.score >= MIN_LABEL_SCORE) {
+            labels.push({ text, confidence: match.score, type: LABEL_TYPES[match.field], sheetName });
+          }
+        });
+      }
+    });
+
+    return labels;
+  }
+};
+
+/**
+ * Picks the provider from environment settings. JigsawStack is only used when
+ * VITE_LABEL_PROVIDER is "jigsawstack" and an API key is configured.
+ */
+export function getConfiguredLabelProvider(): LabelProvider {
+  const providerName = import.meta.env.VITE_LABEL_PROVIDER?.toLowerCase();
+  const apiKey = import.meta.env.VITE_JIGSAWSTACK_API_KEY;
+
+  if (providerName === 'jigsawstack') {
+    if (apiKey) return createJigsawStackProvider(apiKey);
+    console.warn('VITE_LABEL_PROVIDER is "jigsawstack" but VITE_JIGSAWSTACK_API_KEY is not set; using local labels');
+  }
+
+  return localLabelProvider;
+}
+
+export function hasRequiredLabels(labels: FinancialLabel[]): boolean {
+  const labelTypes = new Set(labels.map(l => l.type));
+  return labelTypes.has('account_description') && (
+    (labelTypes.has('debit') && labelTypes.has('credit')) || labelTypes.has('balance')
+  );
+}
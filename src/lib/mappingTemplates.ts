@@ -0,0 +1,49 @@
+import { z } from 'zod';
+import { MappingTemplateSchema } from './types';
+import type { ColumnMapping, MappingTemplate } from './types';
+import { normalizeHeader } from './columnResolver';
+
+const STORAGE_KEY = 'financial-processor:mapping-templates';
+
+export function loadMappingTemplates(): MappingTemplate[] {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    if (!stored) return [];
+    const parsed = z.array(MappingTemplateSchema).safeParse(JSON.parse(stored));
+    return parsed.success ? parsed.data : [];
+  } catch (error) {
+    console.error('Failed to load mapping templates:', error);
+    return [];
+  }
+}
+
+export function saveMappingTemplate(name: string, mapping: ColumnMapping): MappingTemplate[] {
+  const template: MappingTemplate = {
+    name: name.trim(),
+    mapping,
+    createdAt: new Date().toISOString()
+  };
+  const templates = [
+    ...loadMappingTemplates().filter(existing => existing.name !== template.name),
+    template
+  ];
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(templates));
+  return templates;
+}
+
+export function deleteMappingTemplate(name: string): MappingTemplate[] {
+  const templates = loadMappingTemplates().filter(template => template.name !== name);
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(templates));
+  return templates;
+}
+
+/**
+ * Returns the most recent template whose columns all exist in the given headers.
+ */
+export function findMatchingTemplate(templates: MappingTemplate[], headers: string[]): MappingTemplate | null {
+  const available = new Set(headers.map(normalizeHeader));
+  const matches = templates.filter(template =>
+    Object.values(template.mapping).every(header => header !== undefined && available.has(header))
+  );
+  return matches.sort((a, b) => b.createdAt.localeCompare(a.createdAt))[0] ?? null;
+}
@@ -0,0 +1,111 @@
+import { ACCOUNT_NAME_ABBREVIATIONS, ACCOUNT_NAME_STOP_WORDS } from './constants';
+import { foldAccents } from './keywordPacks';
+
+/** Names scoring below this share too little to be treated as the same kind of account */
+export const NAME_SIMILARITY_THRESHOLD = 0.5;
+
+export interface NameMatch<T> {
+  value: T;
+  name: string;
+  /** Weighted share of the two names' tokens they have in common, from 0 to 1 */
+  score: number;
+  sharedTokens: string[];
+}
+
+const STOP_WORDS = new Set(ACCOUNT_NAME_STOP_WORDS);
+
+// "Acc." means accumulated rather than account in front of depreciation or amortisation
+const ACCUMULATED_CONTEXT = /^(dep|amort)/;
+
+function expandAbbreviation(token: string, next: string | undefined): string {
+  const bare = token.replace(/\.+$/, '');
+  if (bare === 'acc' && next && ACCUMULATED_CONTEXT.test(next)) return 'accumulated';
+  return ACCOUNT_NAME_ABBREVIATIONS[bare] ?? bare;
+}
+
+// Reduces plurals so "receivables" and "receivable" match
+function stem(word: string): string {
+  if (word.length > 4 && word.endsWith('ies')) return `${word.slice(0, -3)}y`;
+  if (word.length > 3 && word.endsWith('s') && !/(ss|us|is)$/.test(word)) return word.slice(0, -1);
+  return word;
+}
+
+/**
+ * Splits an account name into comparable tokens: accents folded,
+ * abbreviations such as "a/c", "dep'n" and "prov." expanded, stop words and
+ * bare numbers dropped and plurals reduced.
+ */
+export function tokenizeAccountName(name: string): string[] {
+  // Slashes, apostrophes, ampersands and dots belong to abbreviations, so split on the rest first
+  const raw = foldAccents(name).split(/[\s,;:()[\]{}\-–_+]+/).filter(Boolean);
+  const words = raw.flatMap((token, index) => expandAbbreviation(token, raw[index + 1]).split(/[^a-z0-9]+/));
+
+  const tokens = words
+    .filter(word => word && !STOP_WORDS.has(word) && !/^\d+$/.test(word))
+    .map(stem);
+  return [...new Set(tokens)];
+}
+
+/**
+ * Finds the most similar earlier account name. Tokens are weighted by how
+ * rare they are among the indexed names, so a shared "receivable" counts for
+ * more than a shared "expense", and names are scored by weighted overlap.
+ */
+export class NameSimilarityIndex<T> {
+  private entries: { name: string; tokens: string[]; value: T }[] = [];
+  /** Indexes into entries per token */
+  private postings: Map<string, number[]> = new Map();
+  private threshold: number;
+
+  constructor(threshold = NAME_SIMILARITY_THRESHOLD) {
+    this.threshold = threshold;
+  }
+
+  get size(): number {
+    return this.entries.length;
+  }
+
+  add(name: string, value: T) {
+    const tokens = tokenizeAccountName(name);
+    if (tokens.length === 0) return;
+
+    const position = this.entries.length;
+    this.entries.push({ name, tokens, value });
+    tokens.forEach(token => {
+      const posting = this.postings.get(token);
+      if (posting) posting.push(position);
+      else this.postings.set(token, [position]);
+    });
+  }
+
+  clear() {
+    this.entries = [];
+    this.postings.clear();
+  }
+
+  private weight(token: string): number {
+    const documentFrequency = this.postings.get(token)?.length ?? 0;
+    return Math.log(1 + (this.entries.length + 1) / (documentFrequency + 1));
+  }
+
+  /** Returns the best match at or above the threshold; ties go to the earlier name */
+  search(name: string): NameMatch<T> | null {
+    const tokens = tokenizeAccountName(name);
+    const candidates = new Set(tokens.flatMap(token => this.postings.get(token) ?? []));
+
+    let best: NameMatch<T> | null = null;
+    [...candidates].sort((a, b) => a - b).forEach(position => {
+      const entry = this.entries[position];
+      const shared = tokens.filter(token => entry.tokens.includes(token));
+      const union = new Set([...tokens, ...entry.tokens]);
+      const sharedWeight = shared.reduce((sum, token) => sum + this.weight(token), 0);
+      const unionWeight = [...union].reduce((sum, token) => sum + this.weight(token), 0);
+      const score = unionWeight > 0 ? sharedWeight / unionWeight : 0;
+
+      if (score >= this.threshold && (!best || score > best.score)) {
+        best = { value: entry.value, name: entry.name, score: Math.round(score * 1000) / 1000, sharedTokens: shared };
+      }
+    });
+    return best;
+  }
+}
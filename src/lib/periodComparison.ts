@@ -0,0 +1,213 @@
+import { Decimal } from 'decimal.js';
+import { normalizeAccountName } from './classificationMemory';
+import { classificationLabel } from './reclassification';
+import { VarianceThresholdsSchema } from './types';
+import type { AccountClassification, FinancialEntry, TrialBalance, VarianceThresholds } from './types';
+
+const THRESHOLDS_KEY = 'financial-processor:variance-thresholds';
+
+export const DEFAULT_VARIANCE_THRESHOLDS: VarianceThresholds = { amount: 1000, percent: 10 };
+
+export type VarianceStatus = 'matched' | 'new' | 'dropped' | 'reclassified';
+
+export interface AccountVariance {
+  accountCode: string;
+  accountName: string;
+  status: VarianceStatus;
+  /** How the prior account was found; null for new and dropped accounts */
+  matchedBy: 'code' | 'name' | null;
+  /** Current classification, or the prior one for dropped accounts */
+  category: string;
+  classification: string;
+  priorClassification: string | null;
+  /** Net balances are debit minus credit */
+  current: number;
+  prior: number;
+  variance: number;
+  /** Null when the prior balance is zero */
+  variancePercent: number | null;
+  flagged: boolean;
+}
+
+export interface CategoryVariance {
+  category: string;
+  current: number;
+  prior: number;
+  variance: number;
+  variancePercent: number | null;
+  flagged: boolean;
+}
+
+export interface PeriodComparison {
+  accounts: AccountVariance[];
+  categories: CategoryVariance[];
+  thresholds: VarianceThresholds;
+  counts: Record<VarianceStatus, number> & { flagged: number };
+}
+
+interface AccountBalance {
+  accountCode: string;
+  accountName: string;
+  normalizedName: string;
+  classification: AccountClassification;
+  net: Decimal;
+}
+
+/**
+ * Combines rows for the same account across sheets and tables. Accounts are
+ * keyed by code, or by normalised name when they have none.
+ */
+function accountBalances(entries: FinancialEntry[]): AccountBalance[] {
+  const accounts = new Map<string, AccountBalance>();
+  entries.forEach(entry => {
+    const normalizedName = normalizeAccountName(entry.accountName);
+    const key = entry.accountCode.trim() ? `code:${entry.accountCode.trim()}` : `name:${normalizedName}`;
+    const account = accounts.get(key) ?? {
+      accountCode: entry.accountCode.trim(),
+      accountName: entry.accountName,
+      normalizedName,
+      classification: entry.classification,
+      net: new Decimal(0)
+    };
+    account.net = account.net.plus(entry.debit).minus(entry.credit);
+    accounts.set(key, account);
+  });
+  return Array.from(accounts.values());
+}
+
+function percentChange(variance: Decimal, prior: Decimal): number | null {
+  if (prior.isZero()) return null;
+  return variance.dividedBy(prior.abs()).times(100).toDecimalPlaces(1).toNumber();
+}
+
+/**
+ * A line needs an explanation when its change reaches the amount threshold
+ * and, where a prior balance exists, the percentage threshold as well.
+ */
+function exceedsThresholds(variance: Decimal, variancePercent: number | null, thresholds: VarianceThresholds): boolean {
+  if (variance.abs().lessThan(thresholds.amount)) return false;
+  return variancePercent === null || Math.abs(variancePercent) >= thresholds.percent;
+}
+
+/**
+ * Matches the current period's accounts with the prior period's by code,
+ * falling back to the normalised name for accounts without a code or whose
+ * code changed, and calculates variances per account and primary category.
+ */
+export function comparePeriods(
+  current: TrialBalance,
+  prior: TrialBalance,
+  thresholds: VarianceThresholds = DEFAULT_VARIANCE_THRESHOLDS
+): PeriodComparison {
+  const priorAccounts = accountBalances(prior.entries);
+  const unmatchedPrior = new Set(priorAccounts);
+  const priorByCode = new Map(priorAccounts.filter(account => account.accountCode).map(account => [account.accountCode, account]));
+
+  const accounts: AccountVariance[] = [];
+  const addVariance = (
+    account: AccountBalance,
+    priorAccount: AccountBalance | null,
+    matchedBy: AccountVariance['matchedBy'],
+    isCurrent: boolean
+  ) => {
+    const currentNet = isCurrent ? account.net : new Decimal(0);
+    const priorNet = priorAccount?.net ?? (isCurrent ? new Decimal(0) : account.net);
+    const variance = currentNet.minus(priorNet);
+    const variancePercent = percentChange(variance, priorNet);
+    const classification = classificationLabel(account.classification);
+    const priorClassification = priorAccount ? classificationLabel(priorAccount.classification) : null;
+
+    let status: VarianceStatus = 'matched';
+    if (!isCurrent) status = 'dropped';
+    else if (!priorAccount) status = 'new';
+    else if (priorClassification !== classification) status = 'reclassified';
+
+    accounts.push({
+      accountCode: account.accountCode,
+      accountName: account.accountName,
+      status,
+      matchedBy,
+      category: account.classification.primary,
+      classification,
+      priorClassification: isCurrent ? priorClassification : classification,
+      current: currentNet.toNumber(),
+      prior: priorNet.toNumber(),
+      variance: variance.toNumber(),
+      variancePercent,
+      flagged: exceedsThresholds(variance, variancePercent, thresholds)
+    });
+  };
+
+  const currentAccounts = accountBalances(current.entries);
+  const pending: AccountBalance[] = [];
+  currentAccounts.forEach(account => {
+    const byCode = account.accountCode ? priorByCode.get(account.accountCode) : undefined;
+    if (byCode && unmatchedPrior.has(byCode)) {
+      unmatchedPrior.delete(byCode);
+      addVariance(account, byCode, 'code', true);
+    } else {
+      pending.push(account);
+    }
+  });
+
+  // Name matching only runs once codes are settled so a renumbered account cannot take another's match
+  pending.forEach(account => {
+    const byName = Array.from(unmatchedPrior).find(candidate => candidate.normalizedName === account.normalizedName);
+    if (byName) unmatchedPrior.delete(byName);
+    addVariance(account, byName ?? null, byName ? 'name' : null, true);
+  });
+  unmatchedPrior.forEach(account => addVariance(account, null, null, false));
+
+  const categoryTotals = new Map<string, { current: Decimal; prior: Decimal }>();
+  accounts.forEach(account => {
+    const total = categoryTotals.get(account.category) ?? { current: new Decimal(0), prior: new Decimal(0) };
+    total.current = total.current.plus(account.current);
+    total.prior = total.prior.plus(account.prior);
+    categoryTotals.set(account.category, total);
+  });
+  const categories = Array.from(categoryTotals.entries())
+    .map(([category, total]) => {
+      const variance = total.current.minus(total.prior);
+      const variancePercent = percentChange(variance, total.prior);
+      return {
+        category,
+        current: total.current.toNumber(),
+        prior: total.prior.toNumber(),
+        variance: variance.toNumber(),
+        variancePercent,
+        flagged: exceedsThresholds(variance, variancePercent, thresholds)
+      };
+    })
+    .sort((a, b) => a.category.localeCompare(b.category));
+
+  const countOf = (status: VarianceStatus) => accounts.filter(account => account.status === status).length;
+  return {
+    // Largest movements first so the lines needing explanations lead
+    accounts: accounts.sort((a, b) => Math.abs(b.variance) - Math.abs(a.variance)),
+    categories,
+    thresholds,
+    counts: {
+      matched: countOf('matched'),
+      new: countOf('new'),
+      dropped: countOf('dropped'),
+      reclassified: countOf('reclassified'),
+      flagged: accounts.filter(account => account.flagged).length
+    }
+  };
+}
+
+export function loadVarianceThresholds(): VarianceThresholds {
+  try {
+    const stored = localStorage.getItem(THRESHOLDS_KEY);
+    if (!stored) return DEFAULT_VARIANCE_THRESHOLDS;
+    const parsed = VarianceThresholdsSchema.safeParse(JSON.parse(stored));
+    return parsed.success ? parsed.data : DEFAULT_VARIANCE_THRESHOLDS;
+  } catch (error) {
+    console.error('Failed to load variance thresholds:', error);
+    return DEFAULT_VARIANCE_THRESHOLDS;
+  }
+}
+
+export function saveVarianceThresholds(thresholds: VarianceThresholds) {
+  localStorage.setItem(THRESHOLDS_KEY, JSON.stringify(thresholds));
+}
@@ -0,0 +1,109 @@
+import type { ProcessingOptions, ProcessingProgress } from './financialProcessor';
+import type { DetectedTable, TrialBalance } from './types';
+
+/** Options that can cross the worker boundary; providers and callbacks are set up inside the worker */
+export type WorkerProcessingOptions = Omit<ProcessingOptions, 'labelProvider' | 'onProgress'>;
+
+type WorkerRequestBody =
+  | { type: 'detect'; file: File; options: Pick<WorkerProcessingOptions, 'keywordLocale'> }
+  | { type: 'process'; file: File; options: WorkerProcessingOptions };
+
+export type WorkerRequest = WorkerRequestBody & { id: number };
+
+export type WorkerResponse =
+  | { id: number; type: 'progress'; progress: ProcessingProgress }
+  | { id: number; type: 'detected'; tables: DetectedTable[] }
+  | { id: number; type: 'processed'; trialBalance: TrialBalance }
+  | { id: number; type: 'error'; message: string };
+
+export class ProcessingCancelledError extends Error {
+  constructor() {
+    super('Processing cancelled');
+    this.name = 'ProcessingCancelledError';
+  }
+}
+
+interface PendingRequest {
+  resolve: (response: WorkerResponse) => void;
+  reject: (error: Error) => void;
+  onProgress?: (progress: ProcessingProgress) => void;
+}
+
+/**
+ * Runs FinancialProcessor in a Web Worker so large files don't block the page.
+ * Cancelling terminates the worker; the next request starts a fresh one.
+ */
+export class ProcessingWorkerClient {
+  private worker: Worker | null = null;
+  private nextId = 1;
+  private pending = new Map<number, PendingRequest>();
+
+  private getWorker(): Worker {
+    if (!this.worker) {
+      this.worker = new Worker(new URL('./processingWorker.ts', import.meta.url), { type: 'module' });
+      this.worker.onmessage = (event: MessageEvent<WorkerResponse>) => this.handleResponse(event.data);
+      this.worker.onerror = (event) => this.failAll(new Error(event.message || 'Processing worker failed'));
+    }
+    return this.worker;
+  }
+
+  private handleResponse(response: WorkerResponse) {
+    const request = this.pending.get(response.id);
+    if (!request) return;
+
+    if (response.type === 'progress') {
+      request.onProgress?.(response.progress);
+      return;
+    }
+
+    this.pending.delete(response.id);
+    if (response.type === 'error') {
+      request.reject(new Error(response.message));
+    } else {
+      request.resolve(response);
+    }
+  }
+
+  private failAll(error: Error) {
+    this.pending.forEach(request => request.reject(error));
+    this.pending.clear();
+  }
+
+  private send(
+    request: WorkerRequestBody,
+    onProgress?: (progress: ProcessingProgress) => void
+  ): Promise<WorkerResponse> {
+    const id = this.nextId++;
+    return new Promise((resolve, reject) => {
+      this.pending.set(id, { resolve, reject, onProgress });
+      this.getWorker().postMessage({ ...request, id });
+    });
+  }
+
+  async detect(
+    file: File,
+    options: Pick<WorkerProcessingOptions, 'keywordLocale'>,
+    onProgress?: (progress: ProcessingProgress) => void
+  ): Promise<DetectedTable[]> {
+    const response = await this.send({ type: 'detect', file, options }, onProgress);
+    return response.type === 'detected' ? response.tables : [];
+  }
+
+  async process(
+    file: File,
+    options: WorkerProcessingOptions,
+    onProgress?: (progress: ProcessingProgress) => void
+  ): Promise<TrialBalance> {
+    const response = await this.send({ type: 'process', file, options }, onProgress);
+    if (response.type !== 'processed') {
+      throw new Error('Unexpected response from processing worker');
+    }
+    return response.trialBalance;
+  }
+
+  cancel() {
+    this.worker?.terminate();
+    this.worker = null;
+    this.failAll(new ProcessingCancelledError());
+  }
+}
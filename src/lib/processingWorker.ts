@@ -0,0 +1,61 @@
+/// <reference lib="webworker" />
+import { FinancialProcessor } from './financialProcessor';
+import type { ProcessingProgress } from './financialProcessor';
+import { getConfiguredLabelProvider } from './labelProviders';
+import type { WorkerRequest, WorkerResponse } from './processingClient';
+
+declare const self: DedicatedWorkerGlobalScope;
+
+const labelProvider = getConfiguredLabelProvider();
+
+// Detection and processing of the same upload arrive as separate structured
+// clones; reusing the first copy keeps the processor's label cache effective.
+let lastFile: File | null = null;
+
+function resolveFile(file: File): File {
+  if (
+    lastFile &&
+    lastFile.name === file.name &&
+    lastFile.size === file.size &&
+    lastFile.lastModified === file.lastModified
+  ) {
+    return lastFile;
+  }
+  lastFile = file;
+  return file;
+}
+
+function respond(response: WorkerResponse) {
+  self.postMessage(response);
+}
+
+self.onmessage = async (event: MessageEvent<WorkerRequest>) => {
+  const request = event.data;
+  const file = resolveFile(request.file);
+  const onProgress = (progress: ProcessingProgress) =>
+    respond({ id: request.id, type: 'progress', progress });
+
+  try {
+    if (request.type === 'detect') {
+      const tables = await FinancialProcessor.detectFileTables(file, {
+        ...request.options,
+        labelProvider,
+        onProgress
+      });
+      respond({ id: request.id, type: 'detected', tables });
+    } else {
+      const trialBalance = await FinancialProcessor.processFile(file, {
+        ...request.options,
+        labelProvider,
+        onProgress
+      });
+      respond({ id: request.id, type: 'processed', trialBalance });
+    }
+  } catch (error) {
+    respond({
+      id: request.id,
+      type: 'error',
+      message: error instanceof Error ? error.message : 'Error processing file'
+    });
+  }
+};
@@ -0,0 +1,76 @@
+import { calculateCategoryTotals } from './categoryTotals';
+import { checkBalances } from './balanceChecks';
+import { createSignal, withSingleSignal } from './evidence';
+import { buildFinancialStatements } from './financialStatements';
+import { calculateRatios } from './financialRatios';
+import { TAXONOMY, withTaxonomyElement } from './taxonomy';
+import { refreshCategoryReconciliations } from './totalsReconciliation';
+import type { AccountClassification, FinancialEntry, TrialBalance } from './types';
+
+export type ClassificationNode = Pick<AccountClassification, 'primary' | 'secondary' | 'tertiary'>;
+
+const DEFAULT_REASONING = 'Manually classified by reviewer';
+
+export function classificationLabel(node: ClassificationNode): string {
+  return `${node.primary} > ${node.secondary} > ${node.tertiary}`;
+}
+
+/**
+ * Lists every line item of the reporting taxonomy plus any classification
+ * already used in the results, so reviewers can pick chart categories too.
+ */
+export function listClassificationNodes(entries: FinancialEntry[]): ClassificationNode[] {
+  const nodes = new Map<string, ClassificationNode>();
+  const add = (node: ClassificationNode) => nodes.set(classificationLabel(node), node);
+
+  TAXONOMY.forEach(({ primary, secondary, tertiary }) => add({ primary, secondary, tertiary }));
+
+  entries.forEach(({ classification: { primary, secondary, tertiary } }) => add({ primary, secondary, tertiary }));
+
+  return Array.from(nodes.values()).sort((a, b) => classificationLabel(a).localeCompare(classificationLabel(b)));
+}
+
+function isSameAccount(entry: Pick<FinancialEntry, 'accountCode' | 'accountName'>, target: FinancialEntry): boolean {
+  return entry.accountCode === target.accountCode && entry.accountName === target.accountName;
+}
+
+export function manualClassification(node: ClassificationNode, reasoning: string): AccountClassification {
+  return withSingleSignal({
+    primary: node.primary.trim(),
+    secondary: node.secondary.trim() || node.primary.trim(),
+    tertiary: node.tertiary.trim() || node.secondary.trim() || node.primary.trim(),
+    manual: true,
+    learned: undefined
+  }, createSignal('manual', reasoning.trim() || DEFAULT_REASONING, 1));
+}
+
+/**
+ * Applies a reviewer's classification to every entry of the target's account,
+ * clears the account from the review lists and recalculates category totals,
+ * balance warnings, financial statements, ratios and the reconciliation of
+ * the file's category totals.
+ */
+export function reclassifyAccount(
+  trialBalance: TrialBalance,
+  target: FinancialEntry,
+  classification: AccountClassification
+): TrialBalance {
+  const resolved = withTaxonomyElement(classification, trialBalance.reportingFramework);
+  const entries = trialBalance.entries.map(entry =>
+    isSameAccount(entry, target) ? { ...entry, classification: resolved } : entry
+  );
+
+  const statements = buildFinancialStatements(entries);
+
+  return {
+    ...trialBalance,
+    entries,
+    uncertainClassifications: trialBalance.uncertainClassifications.filter(item => !isSameAccount(item.entry, target)),
+    unmatchedEntries: trialBalance.unmatchedEntries.filter(entry => !isSameAccount(entry, target)),
+    categoryTotals: calculateCategoryTotals(entries),
+    balanceWarnings: checkBalances(entries),
+    statements,
+    ratios: calculateRatios(entries, statements),
+    totalReconciliations: refreshCategoryReconciliations(trialBalance.totalReconciliations, entries)
+  };
+}
@@ -0,0 +1,200 @@
+import { REVIEW_CONFIDENCE_THRESHOLD, UNRESOLVED_SECONDARY } from './constants';
+import type { AccountClassification } from './types';
+
+export const REPORTING_FRAMEWORKS = ['ifrs-sme', 'ifrs', 'us-gaap'] as const;
+export type ReportingFramework = typeof REPORTING_FRAMEWORKS[number];
+
+export const DEFAULT_FRAMEWORK: ReportingFramework = 'ifrs-sme';
+
+const FRAMEWORK_KEY = 'financial-processor:reporting-framework';
+
+export const FRAMEWORK_DETAILS: Record<ReportingFramework, { label: string; prefix: string }> = {
+  'ifrs-sme': { label: 'IFRS for SMEs', prefix: 'ifrs-smes' },
+  ifrs: { label: 'Full IFRS', prefix: 'ifrs-full' },
+  'us-gaap': { label: 'US GAAP', prefix: 'us-gaap' }
+};
+
+export interface TaxonomyConcept {
+  /** Stable identifier of the line item, independent of the framework */
+  id: string;
+  primary: string;
+  secondary: string;
+  tertiary: string;
+  /** Lowercased tertiary or secondary labels that resolve to this concept */
+  aliases: string[];
+  /**
+   * Element names per framework. The IFRS for SMEs taxonomy takes its element
+   * names from full IFRS, so every line item listed here has the same name in both
+   */
+  elements: { ifrsSme: string; ifrs: string; usGaap: string };
+}
+
+type ClassificationLabels = Pick<AccountClassification, 'primary' | 'secondary' | 'tertiary'>;
+
+type ConceptRow = [id: string, tertiary: string, aliases: string[], ifrsSme: string, ifrs: string, usGaap: string];
+
+function concepts(primary: string, secondary: string, rows: ConceptRow[]): TaxonomyConcept[] {
+  return rows.map(([id, tertiary, aliases, ifrsSme, ifrs, usGaap]) => ({
+    id,
+    primary,
+    secondary,
+    tertiary,
+    aliases: [tertiary.toLowerCase(), ...aliases],
+    elements: { ifrsSme, ifrs, usGaap }
+  }));
+}
+
+/**
+ * Line items every classification resolves to. Labels match the standard
+ * chart, and aliases cover the keyword taxonomy's node names.
+ */
+export const TAXONOMY: TaxonomyConcept[] = [
+  ...concepts('Assets', 'Current Assets', [
+    ['cash', 'Cash and Cash Equivalents', ['cash', 'bank'], 'CashAndCashEquivalents', 'CashAndCashEquivalents', 'CashAndCashEquivalentsAtCarryingValue'],
+    ['receivables', 'Accounts Receivable', ['receivables', 'trade receivables'], 'TradeAndOtherCurrentReceivables', 'TradeAndOtherCurrentReceivables', 'AccountsReceivableNetCurrent'],
+    ['inventory', 'Inventory', ['inventories'], 'Inventories', 'Inventories', 'InventoryNet'],
+    ['prepayments', 'Prepayments', ['prepaid expenses'], 'CurrentPrepayments', 'CurrentPrepayments', 'PrepaidExpenseCurrent'],
+    ['other-current-assets', 'Other Current Assets', ['current assets'], 'OtherCurrentAssets', 'OtherCurrentAssets', 'OtherAssetsCurrent']
+  ]),
+  ...concepts('Assets', 'Non-Current Assets', [
+    ['ppe', 'Property, Plant and Equipment', ['fixed assets', 'ppe'], 'PropertyPlantAndEquipment', 'PropertyPlantAndEquipment', 'PropertyPlantAndEquipmentNet'],
+    ['investments', 'Investments', ['long-term investments'], 'OtherNoncurrentFinancialAssets', 'OtherNoncurrentFinancialAssets', 'LongTermInvestments'],
+    ['intangibles', 'Intangible Assets', ['intangibles'], 'IntangibleAssetsOtherThanGoodwill', 'IntangibleAssetsOtherThanGoodwill', 'IntangibleAssetsNetExcludingGoodwill'],
+    ['other-non-current-assets', 'Other Non-Current Assets', ['non-current assets', 'other assets', 'assets'], 'OtherNoncurrentAssets', 'OtherNoncurrentAssets', 'OtherAssetsNoncurrent']
+  ]),
+  ...concepts('Liabilities', 'Current Liabilities', [
+    ['payables', 'Accounts Payable', ['payables', 'trade payables'], 'TradeAndOtherCurrentPayables', 'TradeAndOtherCurrentPayables', 'AccountsPayableCurrent'],
+    ['short-term-loans', 'Short-term Loans', ['short term loans', 'short-term borrowings'], 'ShorttermBorrowings', 'ShorttermBorrowings', 'ShortTermBorrowings'],
+    ['accruals', 'Accruals', ['accrued liabilities', 'provisions'], 'AccrualsClassifiedAsCurrent', 'AccrualsClassifiedAsCurrent', 'AccruedLiabilitiesCurrent'],
+    ['other-current-liabilities', 'Other Current Liabilities', ['current liabilities'], 'OtherCurrentLiabilities', 'OtherCurrentLiabilities', 'OtherLiabilitiesCurrent']
+  ]),
+  ...concepts('Liabilities', 'Non-Current Liabilities', [
+    ['long-term-loans', 'Long-term Loans', ['long term loans', 'long-term borrowings'], 'LongtermBorrowings', 'LongtermBorrowings', 'LongTermDebtNoncurrent'],
+    ['deferred-tax', 'Deferred Tax', ['deferred tax liabilities'], 'DeferredTaxLiabilities', 'DeferredTaxLiabilities', 'DeferredIncomeTaxLiabilitiesNet'],
+    ['other-non-current-liabilities', 'Other Non-Current Liabilities', ['non-current liabilities', 'other liabilities', 'liabilities'], 'OtherNoncurrentLiabilities', 'OtherNoncurrentLiabilities', 'OtherLiabilitiesNoncurrent']
+  ]),
+  ...concepts('Equity', 'Capital', [
+    ['share-capital', 'Share Capital', ['capital', 'issued capital'], 'IssuedCapital', 'IssuedCapital', 'CommonStockValue']
+  ]),
+  ...concepts('Equity', 'Retained Earnings', [
+    ['retained-earnings', 'Accumulated Profits', ['retained earnings'], 'RetainedEarnings', 'RetainedEarnings', 'RetainedEarningsAccumulatedDeficit']
+  ]),
+  ...concepts('Equity', 'Reserves', [
+    ['reserves', 'Reserves', ['other reserves'], 'OtherReserves', 'OtherReserves', 'AdditionalPaidInCapital']
+  ]),
+  ...concepts('Equity', 'Equity', [
+    ['other-equity', 'Other Equity', ['equity'], 'OtherEquityInterest', 'OtherEquityInterest', 'StockholdersEquityOther']
+  ]),
+  ...concepts('Revenue', 'Operating Revenue', [
+    ['sales', 'Sales Revenue', ['sales', 'revenue', 'operating revenue'], 'Revenue', 'Revenue', 'RevenueFromContractWithCustomerExcludingAssessedTax'],
+    ['commission', 'Commission Income', ['commission'], 'FeeAndCommissionIncome', 'FeeAndCommissionIncome', 'FeesAndCommissions']
+  ]),
+  ...concepts('Revenue', 'Other Revenue', [
+    ['interest-income', 'Interest Income', ['interest'], 'FinanceIncome', 'FinanceIncome', 'InvestmentIncomeInterest'],
+    ['dividend-income', 'Dividend Income', ['dividend'], 'DividendIncome', 'DividendIncome', 'InvestmentIncomeDividend'],
+    ['other-revenue', 'Other Revenue', ['other income'], 'OtherIncome', 'OtherIncome', 'OtherNonoperatingIncome']
+  ]),
+  ...concepts('Expenses', 'Operating Expenses', [
+    ['cost-of-sales', 'Cost of Sales', ['direct costs'], 'CostOfSales', 'CostOfSales', 'CostOfGoodsAndServicesSold'],
+    ['employee-benefits', 'Employee Benefits', ['employee'], 'EmployeeBenefitsExpense', 'EmployeeBenefitsExpense', 'LaborAndRelatedExpense'],
+    ['office-expenses', 'Office Expenses', ['office', 'administrative expenses'], 'AdministrativeExpense', 'AdministrativeExpense', 'GeneralAndAdministrativeExpense'],
+    ['selling-expenses', 'Selling Expenses', ['selling', 'marketing'], 'DistributionCosts', 'DistributionCosts', 'SellingAndMarketingExpense'],
+    ['other-operating-expenses', 'Other Operating Expenses', ['operating expenses', 'other expenses', 'expenses'], 'OtherExpenseByNature', 'OtherExpenseByNature', 'OtherCostAndExpenseOperating']
+  ]),
+  ...concepts('Expenses', 'Financial Expenses', [
+    ['finance-costs', 'Finance Costs', ['interest', 'interest expense', 'financial expenses'], 'FinanceCosts', 'FinanceCosts', 'InterestExpense'],
+    ['bank-charges', 'Bank Charges', [], 'FeeAndCommissionExpense', 'FeeAndCommissionExpense', 'OtherNonoperatingExpense']
+  ])
+];
+
+function normalizeLabel(label: string): string {
+  return label.toLowerCase().replace(/_/g, ' ').replace(/\s+/g, ' ').trim()
+    .replace(/^non current\b/, 'non-current')
+    .replace(/^(short|long) term\b/, '$1-term');
+}
+
+/**
+ * Finds the line item for a classification, whichever labels produced it:
+ * the tertiary label first, then the secondary, then the primary category's
+ * catch-all for current, non-current or other items. Fallback classifications
+ * have no line item, so they are not reported under a catch-all before a
+ * reviewer has looked at them.
+ */
+export function resolveTaxonomyConcept(classification: ClassificationLabels): TaxonomyConcept | null {
+  if (classification.secondary === UNRESOLVED_SECONDARY) return null;
+
+  const primary = normalizeLabel(classification.primary);
+  const candidates = TAXONOMY.filter(concept => concept.primary.toLowerCase() === primary);
+  if (candidates.length === 0) return null;
+
+  const secondary = normalizeLabel(classification.secondary);
+  const tertiary = normalizeLabel(classification.tertiary);
+  const inSecondary = candidates.filter(concept => concept.secondary.toLowerCase() === secondary);
+
+  for (const label of [tertiary, secondary]) {
+    // Prefer the concept under the same secondary when an alias is shared, e.g. "interest"
+    const match = inSecondary.find(concept => concept.aliases.includes(label)) ??
+      candidates.find(concept => concept.aliases.includes(label));
+    if (match) return match;
+  }
+
+  const fallbacks = candidates.filter(concept => concept.id.startsWith('other-'));
+  if (secondary.includes('non-current')) {
+    return fallbacks.find(concept => concept.id.includes('non-current')) ?? fallbacks[fallbacks.length - 1];
+  }
+  if (secondary.includes('current')) {
+    return fallbacks.find(concept => !concept.id.includes('non-current')) ?? fallbacks[0];
+  }
+  return fallbacks[fallbacks.length - 1] ?? null;
+}
+
+/**
+ * Whether a classification falls under a taxonomy secondary, judged by its
+ * own secondary label first and by its line item when the label differs,
+ * e.g. a keyword node name such as "current_assets".
+ */
+export function hasSecondary(classification: ClassificationLabels, concept: TaxonomyConcept | null, secondary: string): boolean {
+  return normalizeLabel(classification.secondary) === secondary.toLowerCase() || concept?.secondary === secondary;
+}
+
+/**
+ * Whether a classification is the line item with the given ID, judged by its
+ * own tertiary label against the line item's aliases first and by its
+ * resolved line item otherwise.
+ */
+export function isLineItem(classification: ClassificationLabels, concept: TaxonomyConcept | null, id: string): boolean {
+  const target = TAXONOMY.find(candidate => candidate.id === id);
+  const ownLabelMatches = target !== undefined &&
+    target.primary.toLowerCase() === normalizeLabel(classification.primary) &&
+    target.aliases.includes(normalizeLabel(classification.tertiary));
+  return ownLabelMatches || concept?.id === id;
+}
+
+export function taxonomyElementId(concept: TaxonomyConcept, framework: ReportingFramework): string {
+  const name = framework === 'us-gaap'
+    ? concept.elements.usGaap
+    : framework === 'ifrs-sme' ? concept.elements.ifrsSme : concept.elements.ifrs;
+  return `${FRAMEWORK_DETAILS[framework].prefix}:${name}`;
+}
+
+/**
+ * Returns the classification with the element ID of its line item, or
+ * without one when it does not resolve or still awaits review. Only the
+ * element is withheld; statements and ratios still use the line item.
+ */
+export function withTaxonomyElement(
+  classification: AccountClassification,
+  framework: ReportingFramework
+): AccountClassification {
+  const concept = classification.confidence < REVIEW_CONFIDENCE_THRESHOLD ? null : resolveTaxonomyConcept(classification);
+  return { ...classification, elementId: concept ? taxonomyElementId(concept, framework) : undefined };
+}
+
+export function loadSelectedFramework(): ReportingFramework {
+  const stored = localStorage.getItem(FRAMEWORK_KEY);
+  return REPORTING_FRAMEWORKS.find(framework => framework === stored) ?? DEFAULT_FRAMEWORK;
+}
+
+export function saveSelectedFramework(framework: ReportingFramework) {
+  localStorage.setItem(FRAMEWORK_KEY, framework);
+}
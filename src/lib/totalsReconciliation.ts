@@ -0,0 +1,171 @@
+import { Decimal } from 'decimal.js';
+import { primaryOf } from './financialStatements';
+import type { Primary } from './financialStatements';
+import type { FinancialEntry, TotalComparison, TotalReconciliation } from './types';
+
+/** A total row as read from the file, before it is reconciled */
+export interface StatedTotal {
+  name: string;
+  sheetName: string;
+  sourceTable: string;
+  rowIndex: number;
+  debit: Decimal;
+  credit: Decimal;
+  /** Entries of the same table between the previous total row and this one */
+  section: FinancialEntry[];
+}
+
+// Rounding in the file's own totals stays below half a cent
+const RECONCILIATION_TOLERANCE = 0.005;
+
+const CATEGORY_WORDS: Record<string, Primary> = {
+  asset: 'assets',
+  assets: 'assets',
+  liability: 'liabilities',
+  liabilities: 'liabilities',
+  equity: 'equity',
+  revenue: 'revenue',
+  revenues: 'revenue',
+  expense: 'expenses',
+  expenses: 'expenses'
+};
+
+const TOTAL_WORDS = ['total', 'totals', 'subtotal', 'sub', 'sous', 'summe', 'jumlah', 'and', 'of', 'the'];
+
+// Words that leave a total naming the whole trial balance, e.g. "Total debits and credits"
+const GRAND_WORDS = ['grand', 'trial', 'balance', 'debit', 'debits', 'credit', 'credits', 'all', 'accounts'];
+
+/**
+ * Works out what a total row covers from its name: a grand total names
+ * nothing but the trial balance, a category total names only primary
+ * categories ("Total liabilities and equity") and anything else, such as
+ * "Total current assets", covers the rows since the previous total.
+ */
+export function totalScope(name: string): Pick<TotalReconciliation, 'scope' | 'categories'> {
+  const words = name.toLowerCase().split(/[^\p{L}]+/u).filter(word => word && !TOTAL_WORDS.includes(word));
+  if (words.includes('grand') || words.every(word => GRAND_WORDS.includes(word))) {
+    return { scope: 'grand', categories: [] };
+  }
+  if (words.every(word => word in CATEGORY_WORDS)) {
+    return { scope: 'category', categories: Array.from(new Set(words.map(word => CATEGORY_WORDS[word]))) };
+  }
+  return { scope: 'section', categories: [] };
+}
+
+function compareSide(side: TotalComparison['side'], stated: Decimal, computed: Decimal): TotalComparison {
+  return {
+    side,
+    stated: stated.toNumber(),
+    computed: computed.toNumber(),
+    difference: computed.minus(stated).toNumber()
+  };
+}
+
+/**
+ * Compares each side a two-column total states; a single amount is compared
+ * with the covered rows' net balance, ignoring its sign. A grand total with
+ * only one column is compared with that side of its table or trial balance.
+ */
+function compareTotals(
+  scope: TotalReconciliation['scope'],
+  stated: { debit: Decimal; credit: Decimal },
+  computed: { debit: Decimal; credit: Decimal }
+): TotalComparison[] {
+  const statesDebit = !stated.debit.isZero();
+  const statesCredit = !stated.credit.isZero();
+  if (statesDebit && statesCredit) {
+    return [compareSide('debit', stated.debit, computed.debit), compareSide('credit', stated.credit, computed.credit)];
+  }
+  const isGrand = scope === 'grand' || scope === 'trial-balance';
+  if (isGrand && statesDebit) return [compareSide('debit', stated.debit, computed.debit)];
+  if (isGrand && statesCredit) return [compareSide('credit', stated.credit, computed.credit)];
+  return [compareSide('net', stated.debit.minus(stated.credit).abs(), computed.debit.minus(computed.credit).abs())];
+}
+
+function sumSides(entries: FinancialEntry[]) {
+  return entries.reduce(
+    (total, entry) => ({ debit: total.debit.plus(entry.debit), credit: total.credit.plus(entry.credit) }),
+    { debit: new Decimal(0), credit: new Decimal(0) }
+  );
+}
+
+function reconcile(
+  base: Pick<TotalReconciliation, 'name' | 'sheetName' | 'rowIndex' | 'scope' | 'categories'>,
+  stated: { debit: Decimal; credit: Decimal },
+  computed: { debit: Decimal; credit: Decimal },
+  covered: FinancialEntry[]
+): TotalReconciliation {
+  const comparisons = compareTotals(base.scope, stated, computed);
+  return {
+    ...base,
+    stated: { debit: stated.debit.toNumber(), credit: stated.credit.toNumber() },
+    comparisons,
+    matches: comparisons.every(comparison => Math.abs(comparison.difference) < RECONCILIATION_TOLERANCE),
+    rows: base.scope === 'grand' || base.scope === 'trial-balance'
+      ? []
+      : covered.map(({ accountCode, accountName, rowIndex }) => ({ accountCode, accountName, rowIndex })),
+    entryCount: covered.length
+  };
+}
+
+/** Rows of the total's own table above it, which a grand total sums up */
+function tableEntries(entries: FinancialEntry[], total: StatedTotal): FinancialEntry[] {
+  return entries.filter(entry =>
+    entry.sheetName === total.sheetName && entry.sourceTable === total.sourceTable && entry.rowIndex < total.rowIndex
+  );
+}
+
+function categoryEntries(entries: FinancialEntry[], sheetName: string, categories: string[]): FinancialEntry[] {
+  return entries.filter(entry => {
+    const primary = primaryOf(entry);
+    return entry.sheetName === sheetName && primary !== null && categories.includes(primary);
+  });
+}
+
+/**
+ * Matches every total row of the file to the entries it should cover and
+ * compares the stated amount with their sum. `entries` are the rows as read,
+ * before aggregation merges accounts across sheets. Category totals are summed
+ * over the classified entries of the same sheet, grand totals over the rows
+ * above them in their own table, and grand or section totals that cover no
+ * rows are left out as there is nothing to compare them with. Every grand
+ * total is also compared with the trial balance's debits and credits and
+ * reported separately, so rows outside its table do not go unnoticed.
+ */
+export function reconcileTotals(
+  statedTotals: StatedTotal[],
+  entries: FinancialEntry[],
+  trialBalance: { totalDebits: number; totalCredits: number }
+): TotalReconciliation[] {
+  return statedTotals.flatMap(total => {
+    const { scope, categories } = totalScope(total.name);
+    const base = { name: total.name, sheetName: total.sheetName, rowIndex: total.rowIndex, scope, categories };
+    const stated = { debit: total.debit, credit: total.credit };
+
+    if (scope === 'grand') {
+      const covered = tableEntries(entries, total);
+      const trialBalanceTotals = { debit: new Decimal(trialBalance.totalDebits), credit: new Decimal(trialBalance.totalCredits) };
+      return [
+        ...(covered.length > 0 ? [reconcile(base, stated, sumSides(covered), covered)] : []),
+        reconcile({ ...base, scope: 'trial-balance' }, stated, trialBalanceTotals, entries)
+      ];
+    }
+
+    const covered = scope === 'category' ? categoryEntries(entries, total.sheetName, categories) : total.section;
+    if (scope === 'section' && covered.length === 0) return [];
+    return [reconcile(base, stated, sumSides(covered), covered)];
+  });
+}
+
+/** Recomputes category totals after entries change classification */
+export function refreshCategoryReconciliations(
+  reconciliations: TotalReconciliation[],
+  entries: FinancialEntry[]
+): TotalReconciliation[] {
+  return reconciliations.map(reconciliation => {
+    if (reconciliation.scope !== 'category') return reconciliation;
+    const covered = categoryEntries(entries, reconciliation.sheetName, reconciliation.categories);
+    const stated = { debit: new Decimal(reconciliation.stated.debit), credit: new Decimal(reconciliation.stated.credit) };
+    return reconcile(reconciliation, stated, sumSides(covered), covered);
+  });
+}
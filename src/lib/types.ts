@@ -1,11 +1,55 @@
 import { z } from 'zod';
+import { KEYWORD_LOCALES } from './keywordPacks';
+import { REPORTING_FRAMEWORKS } from './taxonomy';
+
+export const NormalBalanceSchema = z.enum(['DEBIT', 'CREDIT']);
+
+export const EvidenceSignalTypeSchema = z.enum([
+  'manual',
+  'learned',
+  'exact-code',
+  'chart-name',
+  'code-range',
+  'fuzzy-code',
+  'similar-entry',
+  'keyword',
+  'fallback'
+]);
+
+export const EvidenceSignalSchema = z.object({
+  type: EvidenceSignalTypeSchema,
+  detail: z.string(),
+  /** Codes, names or keywords that triggered the signal */
+  matchedTerms: z.array(z.string()),
+  /** How closely the signal matched, from 0 to 1 */
+  strength: z.number().min(0).max(1),
+  /** How far the signal type is trusted, from 0 to 1 */
+  weight: z.number().min(0).max(1),
+  /** strength × weight */
+  score: z.number().min(0).max(1),
+  /** The signal the classification was taken from */
+  selected: z.boolean().optional(),
+  /** Points at the same classification as the selected signal */
+  agrees: z.boolean().optional()
+});
 
 export const AccountClassificationSchema = z.object({
   primary: z.string(),
   secondary: z.string(),
   tertiary: z.string(),
   confidence: z.number().min(0).max(1),
-  reasoning: z.string()
+  reasoning: z.string(),
+  manual: z.boolean().optional(),
+  learned: z.boolean().optional(),
+  matchedRule: z.string().optional(),
+  /** Usual side of the node; falls back to the side of the primary category */
+  normalBalance: NormalBalanceSchema.optional(),
+  /** Reporting taxonomy element of the line item, e.g. "ifrs-full:Inventories" */
+  elementId: z.string().optional(),
+  /** Signals considered for the classification, selected signal first */
+  evidence: z.array(EvidenceSignalSchema).optional(),
+  /** How the signals combined into the confidence */
+  scoring: z.string().optional()
 });
 
 export const FinancialEntrySchema = z.object({
@@ -14,8 +58,10 @@ export const FinancialEntrySchema = z.object({
   debit: z.number().default(0),
   credit: z.number().default(0),
   classification: AccountClassificationSchema,
+  sheetName: z.string(),
   sourceTable: z.string(),
-  rowIndex: z.number()
+  rowIndex: z.number(),
+  rowCount: z.number().optional()
 });
 
 export const DetectedTableSchema = z.object({
@@ -23,9 +69,67 @@ export const DetectedTableSchema = z.object({
   sheetName: z.string(),
   range: z.string(),
   headers: z.array(z.string()),
+  headerRows: z.array(z.number()),
   rowCount: z.number(),
   confidence: z.number().min(0).max(1),
-  type: z.enum(['TRIAL_BALANCE', 'BALANCE_SHEET', 'INCOME_STATEMENT', 'UNKNOWN'])
+  type: z.enum(['TRIAL_BALANCE', 'BALANCE_SHEET', 'INCOME_STATEMENT', 'UNKNOWN']),
+  /** Keyword pack the table was detected with, e.g. "de" */
+  keywordLocale: z.enum(KEYWORD_LOCALES).optional()
+});
+
+export const ColumnFieldSchema = z.enum(['accountCode', 'accountName', 'debit', 'credit', 'balance']);
+
+export const ColumnMappingSchema = z.record(ColumnFieldSchema, z.string());
+
+export const MappingTemplateSchema = z.object({
+  name: z.string().min(1),
+  mapping: ColumnMappingSchema,
+  createdAt: z.string()
+});
+
+export const ChartAccountSchema = z.object({
+  code: z.string().trim().min(1, 'Account code is required'),
+  name: z.string().trim().default(''),
+  primary: z.string().trim().min(1, 'Primary category is required'),
+  secondary: z.string().trim().default(''),
+  tertiary: z.string().trim().default(''),
+  normalBalance: NormalBalanceSchema.optional()
+});
+
+export const ChartOfAccountsSchema = z.object({
+  name: z.string().trim().min(1),
+  accounts: z.array(ChartAccountSchema).min(1, 'The chart has no accounts'),
+  createdAt: z.string()
+});
+
+export const CodeRuleMatchSchema = z.discriminatedUnion('type', [
+  z.object({ type: z.literal('range'), from: z.string().trim().min(1), to: z.string().trim().min(1) }),
+  z.object({ type: z.literal('pattern'), pattern: z.string().trim().min(1) })
+]);
+
+export const CodeRuleSchema = z.object({
+  label: z.string().trim().min(1),
+  match: CodeRuleMatchSchema,
+  primary: z.string().trim().min(1),
+  secondary: z.string().trim().default(''),
+  tertiary: z.string().trim().default(''),
+  normalBalance: NormalBalanceSchema.optional()
+});
+
+export const CodeRuleSetSchema = z.object({
+  name: z.string().trim().min(1),
+  description: z.string().default(''),
+  segmentSeparators: z.string().default('-./ '),
+  naturalSegment: z.number().int().min(0).optional(),
+  rules: z.array(CodeRuleSchema).min(1, 'The rule set has no rules')
+});
+
+export const LearnedClassificationSchema = z.object({
+  accountCode: z.string(),
+  accountName: z.string(),
+  normalizedName: z.string(),
+  classification: AccountClassificationSchema,
+  confirmedAt: z.string()
 });
 
 export const ProcessingLogSchema = z.object({
@@ -54,26 +158,193 @@ export const TotalSummarySchema = z.object({
   category: z.string()
 });
 
+export const TotalComparisonSchema = z.object({
+  /** Net comparisons use magnitudes, as files state totals on either side */
+  side: z.enum(['debit', 'credit', 'net']),
+  stated: z.number(),
+  computed: z.number(),
+  /** Computed less stated */
+  difference: z.number()
+});
+
+export const TotalReconciliationSchema = z.object({
+  name: z.string(),
+  sheetName: z.string(),
+  rowIndex: z.number(),
+  /**
+   * Grand totals cover the rows above them in their table and are compared again
+   * with the whole trial balance under 'trial-balance'; category totals cover a
+   * primary category and section totals the rows since the previous total
+   */
+  scope: z.enum(['grand', 'trial-balance', 'category', 'section']),
+  categories: z.array(z.string()),
+  stated: z.object({ debit: z.number(), credit: z.number() }),
+  comparisons: z.array(TotalComparisonSchema),
+  matches: z.boolean(),
+  /** Rows covered by category and section totals; grand and trial balance comparisons list none */
+  rows: z.array(z.object({ accountCode: z.string(), accountName: z.string(), rowIndex: z.number() })),
+  entryCount: z.number()
+});
+
+export const CategoryTotalSchema = z.object({
+  category: z.string(),
+  debit: z.number(),
+  credit: z.number(),
+  net: z.number(),
+  entryCount: z.number()
+});
+
+export const BalanceWarningSchema = z.object({
+  accountCode: z.string(),
+  accountName: z.string(),
+  sheetName: z.string(),
+  type: z.enum(['unexpected-side', 'contra-account', 'contra-classification']),
+  severity: z.enum(['low', 'medium', 'high']),
+  expectedSide: NormalBalanceSchema,
+  actualSide: NormalBalanceSchema.nullable(),
+  amount: z.number(),
+  message: z.string()
+});
+
+export const BalanceHypothesisSchema = z.object({
+  type: z.enum(['rounding', 'transposition', 'wrong-side', 'single-amount', 'duplicate', 'total-row', 'both-sides']),
+  /** 0-1, used to rank hypotheses against each other */
+  score: z.number(),
+  message: z.string(),
+  rows: z.array(z.object({
+    sheetName: z.string(),
+    accountCode: z.string(),
+    accountName: z.string(),
+    rowIndex: z.number(),
+    debit: z.number(),
+    credit: z.number()
+  }))
+});
+
+export const StatementLineSchema = z.object({
+  kind: z.enum(['heading', 'item', 'subtotal', 'total']),
+  label: z.string(),
+  /** Signed so the section's normal side is positive; null for headings */
+  amount: z.number().nullable(),
+  /** Nesting level, 0 for statement sections */
+  depth: z.number(),
+  entryCount: z.number().optional()
+});
+
+export const FinancialStatementsSchema = z.object({
+  balanceSheet: z.object({
+    lines: z.array(StatementLineSchema),
+    totalAssets: z.number(),
+    totalLiabilities: z.number(),
+    /** Includes the current period's profit */
+    totalEquity: z.number(),
+    currentPeriodProfit: z.number(),
+    /** Total assets less total liabilities and equity */
+    difference: z.number(),
+    isBalanced: z.boolean()
+  }),
+  incomeStatement: z.object({
+    lines: z.array(StatementLineSchema),
+    revenue: z.number(),
+    costOfSales: z.number(),
+    grossProfit: z.number(),
+    operatingExpenses: z.number(),
+    operatingProfit: z.number(),
+    otherIncome: z.number(),
+    financeCosts: z.number(),
+    netProfit: z.number()
+  }),
+  /** Entries whose primary category belongs to neither statement, net of debit minus credit */
+  unclassified: z.object({ entryCount: z.number(), net: z.number() })
+});
+
+export const RatioInputSchema = z.object({
+  label: z.string(),
+  amount: z.number(),
+  entryCount: z.number(),
+  /** Entries below the review confidence threshold */
+  uncertainCount: z.number(),
+  /** No entries were classified into the input */
+  missing: z.boolean()
+});
+
+export const FinancialRatioSchema = z.object({
+  id: z.string(),
+  label: z.string(),
+  formula: z.string(),
+  unit: z.enum(['times', 'percent', 'days']),
+  /** Null when the denominator is missing or zero */
+  value: z.number().nullable(),
+  inputs: z.array(RatioInputSchema),
+  flags: z.array(z.string())
+});
+
+export const VarianceThresholdsSchema = z.object({
+  /** Smallest absolute change in net balance that needs an explanation */
+  amount: z.number().min(0),
+  /** Smallest change relative to the prior balance, in percent */
+  percent: z.number().min(0)
+});
+
 export const TrialBalanceSchema = z.object({
   entries: z.array(FinancialEntrySchema),
   totalDebits: z.number(),
   totalCredits: z.number(),
   isBalanced: z.boolean(),
+  /** Likely causes of the difference, most likely first; empty when balanced */
+  balanceDiagnostics: z.array(BalanceHypothesisSchema),
   detectedTables: z.array(DetectedTableSchema),
+  excludedSheets: z.array(z.string()),
   processingLogs: z.array(ProcessingLogSchema),
   uncertainClassifications: z.array(z.object({
     entry: FinancialEntrySchema,
     possibleClassifications: z.array(AccountClassificationSchema)
   })),
   unmatchedEntries: z.array(UnmatchedEntrySchema),
-  totalsSummary: z.array(TotalSummarySchema)
+  totalsSummary: z.array(TotalSummarySchema),
+  totalReconciliations: z.array(TotalReconciliationSchema),
+  categoryTotals: z.array(CategoryTotalSchema),
+  balanceWarnings: z.array(BalanceWarningSchema),
+  statements: FinancialStatementsSchema,
+  ratios: z.array(FinancialRatioSchema),
+  reportingFramework: z.enum(REPORTING_FRAMEWORKS)
+});
+
+export const ProcessedFileSchema = z.object({
+  /** Upload queue item the result came from; file names repeat across entities */
+  id: z.string(),
+  fileName: z.string(),
+  trialBalance: TrialBalanceSchema,
+  processedAt: z.string()
 });
 
+export type EvidenceSignalType = z.infer<typeof EvidenceSignalTypeSchema>;
+export type EvidenceSignal = z.infer<typeof EvidenceSignalSchema>;
 export type AccountClassification = z.infer<typeof AccountClassificationSchema>;
 export type FinancialEntry = z.infer<typeof FinancialEntrySchema>;
 export type DetectedTable = z.infer<typeof DetectedTableSchema>;
+export type ColumnField = z.infer<typeof ColumnFieldSchema>;
+export type ColumnMapping = z.infer<typeof ColumnMappingSchema>;
+export type MappingTemplate = z.infer<typeof MappingTemplateSchema>;
+export type NormalBalance = z.infer<typeof NormalBalanceSchema>;
+export type ChartAccount = z.infer<typeof ChartAccountSchema>;
+export type ChartOfAccounts = z.infer<typeof ChartOfAccountsSchema>;
+export type CodeRule = z.infer<typeof CodeRuleSchema>;
+export type CodeRuleSet = z.infer<typeof CodeRuleSetSchema>;
+export type LearnedClassification = z.infer<typeof LearnedClassificationSchema>;
 export type ProcessingLog = z.infer<typeof ProcessingLogSchema>;
 export type ClassificationResult = z.infer<typeof ClassificationResultSchema>;
 export type UnmatchedEntry = z.infer<typeof UnmatchedEntrySchema>;
 export type TotalSummary = z.infer<typeof TotalSummarySchema>;
-export type TrialBalance = z.infer<typeof TrialBalanceSchema>;
\ No newline at end of file
+export type TotalComparison = z.infer<typeof TotalComparisonSchema>;
+export type TotalReconciliation = z.infer<typeof TotalReconciliationSchema>;
+export type CategoryTotal = z.infer<typeof CategoryTotalSchema>;
+export type TrialBalance = z.infer<typeof TrialBalanceSchema>;
+export type BalanceWarning = z.infer<typeof BalanceWarningSchema>;
+export type BalanceHypothesis = z.infer<typeof BalanceHypothesisSchema>;
+export type StatementLine = z.infer<typeof StatementLineSchema>;
+export type FinancialStatements = z.infer<typeof FinancialStatementsSchema>;
+export type RatioInput = z.infer<typeof RatioInputSchema>;
+export type FinancialRatio = z.infer<typeof FinancialRatioSchema>;
+export type VarianceThresholds = z.infer<typeof VarianceThresholdsSchema>;
+export type ProcessedFile = z.infer<typeof ProcessedFileSchema>;
@@ -1 +1,17 @@
 /// <reference types="vite/client" />
+
+interface ImportMetaEnv {
+  readonly VITE_SUPABASE_URL: string;
+  readonly VITE_SUPABASE_ANON_KEY: string;
+  /** Set to "jigsawstack" to send workbooks to JigsawStack for header labelling */
+  readonly VITE_LABEL_PROVIDER?: string;
+  readonly VITE_JIGSAWSTACK_API_KEY?: string;
+  /** Largest accepted upload in megabytes */
+  readonly VITE_MAX_FILE_SIZE_MB?: string;
+  /** Set to "supabase" to sync learned classifications to the classification_memory table */
+  readonly VITE_CLASSIFICATION_MEMORY?: string;
+}
+
+interface ImportMeta {
+  readonly env: ImportMetaEnv;
+}